@@ -8,6 +8,7 @@ export const ERC20_ABI = [
 ] as const;
 
 export const UNIV2_ROUTER_ABI = [
+  { type:'function', name:'factory', stateMutability:'view', inputs:[], outputs:[{type:'address'}] },
   { type:'function', name:'getAmountsOut', stateMutability:'view',
     inputs:[{name:'amountIn', type:'uint256'},{name:'path', type:'address[]'}],
     outputs:[{name:'amounts', type:'uint256[]'}]
@@ -24,6 +25,13 @@ export const UNIV2_ROUTER_ABI = [
   },
 ] as const;
 
+export const UNIV2_FACTORY_ABI = [
+  { type:'function', name:'getPair', stateMutability:'view',
+    inputs:[{name:'a', type:'address'},{name:'b', type:'address'}],
+    outputs:[{name:'pair', type:'address'}]
+  },
+] as const;
+
 export const WRAPPED_WITHDRAW_ABI = [
   { type:'function', name:'withdraw', stateMutability:'nonpayable', inputs:[{name:'wad', type:'uint256'}], outputs:[] }
 ] as const;
@@ -0,0 +1,218 @@
+import * as fs from "fs";
+import * as path from "path";
+import { validateMnemonic } from "@scure/bip39";
+import { getAddress, type Address } from "viem";
+import {
+  english,
+  mnemonicToAccount,
+  privateKeyToAccount,
+  type HDAccount,
+  type LocalAccount,
+  type PrivateKeyAccount,
+} from "viem/accounts";
+import { decryptKeystore, readKeystoreFile } from "./keystore";
+import { promptHidden } from "./prompt";
+import { getSignerBackend, loadRemoteSignerAccounts } from "./signer";
+
+// Where the mining/trading accounts come from, in order of preference:
+//   KEYSTORE_PATH        V3 JSON keystore(s); password from KEYSTORE_PASSWORD_FILE,
+//                        KEYSTORE_PASSWORD or an interactive prompt
+//   HD_PATH              BIP-39 mnemonic + derivation path, e.g. m/44'/60'/0'/0/0..9;
+//                        mnemonic from MNEMONIC_FILE / MNEMONIC (plaintext, needs
+//                        ALLOW_PLAINTEXT_KEY=true) or an interactive prompt
+//   PRIVATE_KEY          plaintext key(s), only with ALLOW_PLAINTEXT_KEY=true
+// KEYSTORE_PATH and PRIVATE_KEY accept a comma-separated list for multi-wallet mining.
+// With SIGNER=remote no key is loaded here; see signer.ts.
+
+export type AccountSource = "keystore" | "mnemonic" | "private-key" | "remote-signer";
+
+export const DEFAULT_HD_PATH = "m/44'/60'/0'/0/0";
+const MAX_HD_ACCOUNTS = 1000;
+
+function envFlag(name: string): boolean {
+  return ["1", "true", "yes", "y"].includes((process.env[name] || "").toLowerCase().trim());
+}
+
+function splitList(v: string): string[] {
+  return v.split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+// KEYSTORE_PATH entries may be files or directories of *.json keystores
+function keystoreFiles(): string[] {
+  return splitList(process.env.KEYSTORE_PATH || "").flatMap((entry) => {
+    if (fs.existsSync(entry) && fs.statSync(entry).isDirectory()) {
+      return fs
+        .readdirSync(entry)
+        .filter((f) => f.endsWith(".json"))
+        .sort()
+        .map((f) => path.join(entry, f));
+    }
+    return [entry];
+  });
+}
+
+function configuredPassword(): string | null {
+  const passwordFile = process.env.KEYSTORE_PASSWORD_FILE;
+  if (passwordFile) {
+    return fs.readFileSync(passwordFile, "utf-8").replace(/\r?\n$/, "");
+  }
+  if (process.env.KEYSTORE_PASSWORD != null) {
+    return process.env.KEYSTORE_PASSWORD;
+  }
+  return null;
+}
+
+async function decryptKeystores(files: string[]): Promise<PrivateKeyAccount[]> {
+  const configured = configuredPassword();
+  if (configured == null && !process.stdin.isTTY) {
+    throw new Error(
+      "Keystore password required: set KEYSTORE_PASSWORD_FILE or KEYSTORE_PASSWORD when running without a terminal"
+    );
+  }
+
+  // With a prompt, the last password is tried first so a shared password is typed once
+  let lastPassword: string | null = configured;
+  const accounts: PrivateKeyAccount[] = [];
+  for (const file of files) {
+    const keystore = readKeystoreFile(file);
+    for (let attempt = 1; ; attempt++) {
+      const password = lastPassword ?? (await promptHidden(`Password for ${file}: `));
+      try {
+        accounts.push(privateKeyToAccount(decryptKeystore(keystore, password)));
+        lastPassword = password;
+        break;
+      } catch (error) {
+        if (configured != null || attempt >= 3) throw new Error(`${file}: ${(error as Error).message}`);
+        lastPassword = null;
+      }
+    }
+  }
+  return accounts;
+}
+
+/**
+ * Expand an HD path whose last segment may be a range ("0..9") into one path
+ * per index. Only Ethereum paths (m/44'/60'/...) are accepted.
+ */
+export function expandHdPath(spec: string): `m/44'/60'/${string}`[] {
+  const match = spec.trim().match(/^(m(?:\/\d+'?)*)\/(\d+)(?:\.\.(\d+))?('?)$/);
+  if (!match || !match[1].startsWith("m/44'/60'")) {
+    throw new Error(`Invalid HD_PATH "${spec}": expected e.g. m/44'/60'/0'/0/0 or m/44'/60'/0'/0/0..9`);
+  }
+  const [, prefix, from, to, hardened] = match;
+  const start = Number(from);
+  const end = to != null ? Number(to) : start;
+  if (end < start) throw new Error(`Invalid HD_PATH "${spec}": range end ${end} is below start ${start}`);
+  if (end - start + 1 > MAX_HD_ACCOUNTS) {
+    throw new Error(`Invalid HD_PATH "${spec}": at most ${MAX_HD_ACCOUNTS} accounts per range`);
+  }
+  return Array.from({ length: end - start + 1 }, (_, i) => `${prefix}/${start + i}${hardened}` as `m/44'/60'/${string}`);
+}
+
+function normalizeMnemonic(mnemonic: string): string {
+  const words = mnemonic.normalize("NFKD").trim().toLowerCase().split(/\s+/);
+  if (![12, 15, 18, 21, 24].includes(words.length)) {
+    throw new Error(`Mnemonic must have 12, 15, 18, 21 or 24 words (got ${words.length})`);
+  }
+  const unknown = words.filter((w) => !english.includes(w));
+  if (unknown.length > 0) {
+    throw new Error(`Mnemonic has ${unknown.length} word(s) not in the BIP-39 English wordlist`);
+  }
+  // A mistyped word usually still comes from the wordlist; only the checksum catches it
+  if (!validateMnemonic(words.join(" "), english)) {
+    throw new Error("Mnemonic checksum is invalid: check every word and their order");
+  }
+  return words.join(" ");
+}
+
+function usesMnemonic(): boolean {
+  return Boolean(process.env.HD_PATH || process.env.MNEMONIC || process.env.MNEMONIC_FILE);
+}
+
+async function resolveMnemonic(): Promise<string> {
+  const file = process.env.MNEMONIC_FILE;
+  const inline = process.env.MNEMONIC;
+  if ((file || inline) && !envFlag("ALLOW_PLAINTEXT_KEY")) {
+    throw new Error(
+      "MNEMONIC / MNEMONIC_FILE store the seed in plaintext; opt in with ALLOW_PLAINTEXT_KEY=true " +
+        "or leave them unset to be prompted for the mnemonic"
+    );
+  }
+  if (file) return fs.readFileSync(file, "utf-8");
+  if (inline) return inline;
+  if (!process.stdin.isTTY) {
+    throw new Error("Mnemonic required: set MNEMONIC_FILE or MNEMONIC when running without a terminal");
+  }
+  return promptHidden("Mnemonic: ");
+}
+
+async function deriveMnemonicAccounts(): Promise<HDAccount[]> {
+  const paths = expandHdPath(process.env.HD_PATH || DEFAULT_HD_PATH);
+  const mnemonic = normalizeMnemonic(await resolveMnemonic());
+  return paths.map((path) => mnemonicToAccount(mnemonic, { path }));
+}
+
+export function describeAccountSource(): AccountSource | null {
+  if (getSignerBackend() === "remote") return "remote-signer";
+  if (process.env.KEYSTORE_PATH) return "keystore";
+  if (usesMnemonic()) return "mnemonic";
+  if (process.env.PRIVATE_KEY) return "private-key";
+  return null;
+}
+
+/** Keys held in this process (keystores, mnemonic-derived, or plaintext keys). */
+export async function loadLocalAccounts(): Promise<LocalAccount[]> {
+  const files = keystoreFiles();
+  if (files.length > 0) return decryptKeystores(files);
+  if (usesMnemonic()) return deriveMnemonicAccounts();
+
+  const privateKeys = splitList(process.env.PRIVATE_KEY || "");
+  if (privateKeys.length > 0) {
+    if (!envFlag("ALLOW_PLAINTEXT_KEY")) {
+      throw new Error(
+        "PRIVATE_KEY is set but plaintext keys are disabled. " +
+          "Move it into a keystore with `npm run keystore import` and set KEYSTORE_PATH, " +
+          "or opt in with ALLOW_PLAINTEXT_KEY=true"
+      );
+    }
+    return privateKeys.map((pk) => privateKeyToAccount(pk as `0x${string}`));
+  }
+
+  throw new Error(
+    "No account configured: set KEYSTORE_PATH (recommended), HD_PATH / MNEMONIC, or PRIVATE_KEY with ALLOW_PLAINTEXT_KEY=true"
+  );
+}
+
+/** All configured accounts, signing locally or through the remote signer per SIGNER. */
+export async function loadAccounts(): Promise<LocalAccount[]> {
+  if (getSignerBackend() === "remote") return loadRemoteSignerAccounts();
+  return loadLocalAccounts();
+}
+
+/**
+ * Addresses of the configured accounts without unlocking them where possible
+ * (keystores carry their address); mnemonics and remote signers are still asked.
+ */
+export async function loadAccountAddresses(): Promise<Address[]> {
+  const files = getSignerBackend() === "local" ? keystoreFiles() : [];
+  if (files.length > 0) return files.map((file) => getAddress(`0x${readKeystoreFile(file).address.replace(/^0x/, "")}`));
+  return (await loadAccounts()).map((a) => a.address);
+}
+
+/**
+ * The account for single-wallet scripts: the first configured one, or the one
+ * picked by ACCOUNT (an index into the list or an address).
+ */
+export async function loadAccount(): Promise<LocalAccount> {
+  const accounts = await loadAccounts();
+  const selector = process.env.ACCOUNT?.trim();
+  if (!selector) return accounts[0];
+
+  const account = /^\d+$/.test(selector)
+    ? accounts[Number(selector)]
+    : accounts.find((a) => a.address.toLowerCase() === selector.toLowerCase());
+  if (!account) {
+    throw new Error(`ACCOUNT=${selector} does not match any of the ${accounts.length} configured account(s)`);
+  }
+  return account;
+}
@@ -0,0 +1,256 @@
+import * as fs from "fs";
+import * as path from "path";
+import { formatEther, parseEther } from "viem";
+import type { MiningEngine } from "./mining-engine";
+
+// Spend budgets that outlive a session: per UTC day, week (from Monday),
+// month and lifetime, each in ETH or USD. Every L1 spend is appended to a
+// JSONL ledger, so the budgets hold across restarts, across wallets and
+// across miners sharing the file. USD budgets count each spend at the ETH
+// price it was made at. Dry-run spends are not recorded.
+//
+//   BUDGET_PATH=./mining-budget.jsonl   where the ledger lives (default shown)
+
+export const DEFAULT_BUDGET_FILE = path.join(process.cwd(), "mining-budget.jsonl");
+
+export function budgetPath(): string {
+  return process.env.BUDGET_PATH || DEFAULT_BUDGET_FILE;
+}
+
+export type BudgetPeriod = "day" | "week" | "month" | "lifetime";
+export type BudgetUnit = "ETH" | "USD";
+
+export interface BudgetLimit {
+  period: BudgetPeriod;
+  amount: number;
+  unit: BudgetUnit;
+}
+
+export interface BudgetStatus {
+  limit: BudgetLimit;
+  spent: number; // in the limit's unit
+  remaining: number; // in the limit's unit, never negative
+  resetsAt: Date | null; // null for lifetime
+}
+
+interface LedgerEntry {
+  ts: string; // ISO time
+  network: string;
+  wallet: string;
+  l1Hash?: string;
+  wei: string; // bigint as a decimal string
+  usd: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** "0.05", "0.05 ETH", "25 USD" or "$25"; a bare number is ETH. */
+export function parseBudgetAmount(text: string): Omit<BudgetLimit, "period"> {
+  const match = /^\s*(\$)?\s*(\d+(?:\.\d+)?)\s*(eth|usd)?\s*$/i.exec(text);
+  const amount = match ? Number(match[2]) : NaN;
+  if (!match || !(amount > 0) || (match[1] && match[3]?.toUpperCase() === "ETH")) {
+    throw new Error(`invalid budget "${text}" (e.g. 0.05, 0.05 ETH, 25 USD, $25)`);
+  }
+  return { amount, unit: match[1] || match[3]?.toUpperCase() === "USD" ? "USD" : "ETH" };
+}
+
+/** Limits from BUDGET_DAILY / _WEEKLY / _MONTHLY / _LIFETIME values; unset periods are skipped. */
+export function budgetLimits(amounts: Record<BudgetPeriod, string | undefined>): BudgetLimit[] {
+  return (Object.entries(amounts) as [BudgetPeriod, string | undefined][])
+    .filter(([, text]) => text != null && text.trim() !== "")
+    .map(([period, text]) => ({ period, ...parseBudgetAmount(text!) }));
+}
+
+export function formatBudgetAmount(amount: number, unit: BudgetUnit): string {
+  return unit === "USD" ? `$${amount.toFixed(2)}` : `${Number(amount.toFixed(6))} ETH`;
+}
+
+/** Start of the period containing `now` (UTC), and the start of the next one. */
+function periodBounds(period: BudgetPeriod, now: Date): [Date, Date | null] {
+  const y = now.getUTCFullYear();
+  const m = now.getUTCMonth();
+  const d = now.getUTCDate();
+  switch (period) {
+    case "day":
+      return [new Date(Date.UTC(y, m, d)), new Date(Date.UTC(y, m, d + 1))];
+    case "week": {
+      const start = Date.UTC(y, m, d) - ((now.getUTCDay() + 6) % 7) * DAY_MS;
+      return [new Date(start), new Date(start + 7 * DAY_MS)];
+    }
+    case "month":
+      return [new Date(Date.UTC(y, m, 1)), new Date(Date.UTC(y, m + 1, 1))];
+    case "lifetime":
+      return [new Date(0), null];
+  }
+}
+
+function remainingInWei(s: BudgetStatus, ethPriceUsd: number): bigint {
+  const eth = s.limit.unit === "USD" ? (ethPriceUsd > 0 ? s.remaining / ethPriceUsd : 0) : s.remaining;
+  return parseEther(eth.toFixed(18));
+}
+
+export class SpendBudget {
+  private entries: LedgerEntry[] = [];
+  private readBytes = 0;
+
+  constructor(
+    readonly limits: BudgetLimit[],
+    readonly network: string,
+    readonly file = budgetPath()
+  ) {}
+
+  /** Append a spend; `at` backdates it (ISO time), e.g. for a transaction an earlier run sent. */
+  record(spend: { wallet: string; l1Hash?: string; wei: bigint; ethPriceUsd: number; at?: string }) {
+    if (spend.wei <= 0n) return;
+    const entry: LedgerEntry = {
+      ts: spend.at ?? new Date().toISOString(),
+      network: this.network,
+      wallet: spend.wallet,
+      l1Hash: spend.l1Hash,
+      wei: spend.wei.toString(),
+      usd: Number(formatEther(spend.wei)) * spend.ethPriceUsd,
+    };
+    // Start on a fresh line if a crashed writer left a partial one
+    fs.appendFileSync(this.file, (this.endsMidLine() ? "\n" : "") + JSON.stringify(entry) + "\n", { mode: 0o600 });
+  }
+
+  private endsMidLine(): boolean {
+    if (!fs.existsSync(this.file)) return false;
+    const size = fs.statSync(this.file).size;
+    if (size === 0) return false;
+    const fd = fs.openSync(this.file, "r");
+    try {
+      const last = Buffer.alloc(1);
+      fs.readSync(fd, last, 0, 1, size - 1);
+      return last[0] !== 0x0a;
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /** Ledger entries for this network; re-reads only what other writers appended since. */
+  private ledger(): LedgerEntry[] {
+    if (!fs.existsSync(this.file)) return this.entries;
+    const size = fs.statSync(this.file).size;
+    if (size < this.readBytes) {
+      // Truncated or replaced: start over
+      this.entries = [];
+      this.readBytes = 0;
+    }
+    if (size > this.readBytes) {
+      const fd = fs.openSync(this.file, "r");
+      try {
+        const buffer = Buffer.alloc(size - this.readBytes);
+        fs.readSync(fd, buffer, 0, buffer.length, this.readBytes);
+        const text = buffer.toString("utf8");
+        // Leave a partly written last line for the next read
+        const complete = text.lastIndexOf("\n") + 1;
+        for (const line of text.slice(0, complete).split("\n")) {
+          if (!line.trim()) continue;
+          try {
+            const entry: LedgerEntry = JSON.parse(line);
+            if (entry.network === this.network) this.entries.push(entry);
+          } catch {
+            // Skip a damaged line rather than lose the budget
+          }
+        }
+        this.readBytes += Buffer.byteLength(text.slice(0, complete));
+      } finally {
+        fs.closeSync(fd);
+      }
+    }
+    return this.entries;
+  }
+
+  status(now = new Date()): BudgetStatus[] {
+    const entries = this.ledger();
+    return this.limits.map((limit) => {
+      const [start, resetsAt] = periodBounds(limit.period, now);
+      let wei = 0n;
+      let usd = 0;
+      for (const entry of entries) {
+        if (new Date(entry.ts) < start) continue;
+        wei += BigInt(entry.wei);
+        usd += entry.usd;
+      }
+      const spent = limit.unit === "USD" ? usd : Number(formatEther(wei));
+      return { limit, spent, remaining: Math.max(0, limit.amount - spent), resetsAt };
+    });
+  }
+
+  /** ETH every budget still allows, at `ethPriceUsd` for USD budgets; null without budgets. */
+  remainingWei(ethPriceUsd: number, now = new Date()): bigint | null {
+    let least: bigint | null = null;
+    for (const s of this.status(now)) {
+      const wei = remainingInWei(s, ethPriceUsd);
+      if (least == null || wei < least) least = wei;
+    }
+    return least;
+  }
+
+  /** Whether `cost` more ETH fits in every budget. */
+  allows(cost: bigint, ethPriceUsd: number, now = new Date()): boolean {
+    const remaining = this.remainingWei(ethPriceUsd, now);
+    return remaining == null || cost <= remaining;
+  }
+
+  /**
+   * The budgets `cost` does not fit in, and when the last of them rolls over
+   * (null when a lifetime budget is among them: it never does).
+   */
+  blocked(cost: bigint, ethPriceUsd: number, now = new Date()): { exhausted: BudgetStatus[]; until: Date | null } | null {
+    const exhausted = this.status(now).filter((s) => cost > remainingInWei(s, ethPriceUsd));
+    if (exhausted.length === 0) return null;
+    const resets = exhausted.map((s) => s.resetsAt);
+    const until = resets.includes(null) ? null : new Date(Math.max(...resets.map((d) => d!.getTime())));
+    return { exhausted, until };
+  }
+
+  /** Record every real L1 spend the engine reports, mined cancels (gap fills too) included. */
+  attach(engine: MiningEngine): () => void {
+    const detachers = [
+      engine.on("confirmed", (result) => {
+        if (result.simulated) return;
+        this.record({
+          wallet: result.wallet.account.address,
+          l1Hash: result.l1Hash,
+          wei: result.ethSpent,
+          ethPriceUsd: result.estimate.ethPriceUsd,
+        });
+      }),
+      engine.on("failed", (failure) => {
+        if (!failure.cost || engine.dryRun) return;
+        this.record({
+          wallet: failure.wallet?.account.address ?? "",
+          l1Hash: failure.l1Hash,
+          wei: failure.cost.total,
+          ethPriceUsd: failure.estimate?.ethPriceUsd ?? 0,
+        });
+      }),
+      engine.on("gapCancel", (cancel) => {
+        if (!cancel.cost) return;
+        this.record({
+          wallet: cancel.wallet.account.address,
+          l1Hash: cancel.attempt.l1Hash,
+          wei: cancel.cost.total,
+          ethPriceUsd: cancel.ethPriceUsd,
+        });
+      }),
+    ];
+    return () => detachers.forEach((detach) => detach());
+  }
+}
+
+/** "day $3.20 of $10.00 left (resets in 5h 12m)" */
+export function formatBudgetStatus(s: BudgetStatus, now = new Date()): string {
+  const left = `${s.limit.period} ${formatBudgetAmount(s.remaining, s.limit.unit)} of ${formatBudgetAmount(
+    s.limit.amount,
+    s.limit.unit
+  )} left`;
+  if (!s.resetsAt) return left;
+  const minutes = Math.max(0, Math.ceil((s.resetsAt.getTime() - now.getTime()) / 60_000));
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const resets = days > 0 ? `${days}d ${hours}h` : `${hours}h ${minutes % 60}m`;
+  return `${left} (resets in ${resets})`;
+}
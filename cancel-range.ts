@@ -1,14 +1,16 @@
 // cancel-range.ts
 import 'dotenv/config';
-import { createPublicClient, createWalletClient, http, parseGwei } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
+import { createPublicClient, createWalletClient, parseGwei, type Transport, type WalletClient } from 'viem';
+import type { LocalAccount } from 'viem/accounts';
 import { getNetworkConfig } from './config';
+import { facetTransport } from './rpc';
+import { loadAccount } from './account';
 
 const conf = getNetworkConfig();
-const PK = process.env.PRIVATE_KEY as `0x${string}`;
-const account = privateKeyToAccount(PK);
-const pub = createPublicClient({ transport: http(conf.facetRpcUrl) });
-const wal = createWalletClient({ account, transport: http(conf.facetRpcUrl) });
+const pub = createPublicClient({ transport: facetTransport() });
+// 账户在 main() 中加载（keystore 可能需要输入密码）
+let account: LocalAccount;
+let wal: WalletClient<Transport, undefined, LocalAccount>;
 
 const FROM = Number(process.env.CANCEL_FROM_NONCE);
 const TO   = Number(process.env.CANCEL_TO_NONCE);
@@ -56,6 +58,8 @@ async function main() {
   if (!Number.isFinite(FROM) || !Number.isFinite(TO)) {
     throw new Error('请在 .env 设置 CANCEL_FROM_NONCE / CANCEL_TO_NONCE');
   }
+  account = await loadAccount();
+  wal = createWalletClient({ account, transport: facetTransport() });
   const latest = await pub.getTransactionCount({ address: account.address, blockTag: 'latest' });
   const pending= await pub.getTransactionCount({ address: account.address, blockTag: 'pending' });
   console.log(`地址: ${account.address}, latest=${latest}, pendingTop=${pending}, 区间=[${FROM}..${TO}]`);
@@ -1,26 +1,43 @@
 // check-network.ts
 import 'dotenv/config';
-import { createPublicClient, http } from 'viem';
+import { createPublicClient } from 'viem';
 import { getNetworkConfig } from './config';
+import { getRpcPools, formatEndpoint } from './rpc';
 
-export async function checkNetwork() {
+export async function checkNetwork(opts: { silent?: boolean } = {}) {
   const conf = getNetworkConfig();
-  const client = createPublicClient({ transport: http(conf.facetRpcUrl) });
+  const client = createPublicClient({ transport: getRpcPools().facet.transport() });
 
   const chainId = await client.getChainId();
   if (chainId !== conf.facetChainId) {
-    throw new Error(`RPC 链不匹配：期望 chainId=${conf.facetChainId}，实际=${chainId}。请确认使用 Facet 主网 RPC：${conf.facetRpcUrl}`);
+    throw new Error(`RPC 链不匹配：期望 chainId=${conf.facetChainId}，实际=${chainId}。请确认使用 ${conf.facetChain.name} RPC：${conf.facetRpcUrl}`);
   }
 
-  // 关键合约必须是“有码合约”
-  for (const [name, addr] of Object.entries({ ROUTER: conf.router, WETH: conf.weth, WFCT: conf.wfct })) {
-    const code = await client.getCode({ address: addr });
-    if (!code || code === '0x') throw new Error(`${name}=${addr} 在当前链上不是合约（疑似串链或地址填错）`);
+  // 关键合约必须是“有码合约”（仅在可交易的网络上检查）
+  if (conf.tradingEnabled) {
+    for (const [name, addr] of Object.entries({ ROUTER: conf.router, WETH: conf.weth, WFCT: conf.wfct })) {
+      const code = await client.getCode({ address: addr });
+      if (!code || code === '0x') throw new Error(`${name}=${addr} 在当前链上不是合约（疑似串链或地址填错）`);
+    }
   }
 
-  console.log(`✅ 网络校验通过：chainId=${chainId}，RPC=${conf.facetRpcUrl}`);
+  if (!opts.silent) console.log(`✅ 网络校验通过：network=${conf.name}，chainId=${chainId}，RPC=${getRpcPools().facet.current().url}`);
+}
+
+// 探测所有 L1 / Facet RPC，打印当前使用的节点及各节点健康度
+export async function printRpcHealth() {
+  for (const pool of Object.values(getRpcPools())) {
+    const health = await pool.probe();
+    const current = pool.current().url;
+    console.log(`${pool.label} RPC：`);
+    for (const h of health) {
+      const mark = h.url === current ? '→' : ' ';
+      const err = h.lastError && h.errors > 0 ? `  最近错误: ${h.lastError}` : '';
+      console.log(`  ${mark} ${formatEndpoint(h)}  score=${Math.round(h.score)}${err}`);
+    }
+  }
 }
 
 if (import.meta.main) {
-  checkNetwork().catch((e) => { console.error(e); process.exit(1); });
+  checkNetwork().then(printRpcHealth).catch((e) => { console.error(e); process.exit(1); });
 }
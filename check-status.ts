@@ -1,16 +1,18 @@
 // check-status.ts
 import 'dotenv/config';
-import { createPublicClient, http, formatUnits } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
+import { createPublicClient, formatUnits } from 'viem';
 import { getNetworkConfig } from './config';
 import { checkNetwork } from './check-network';
+import { facetTransport } from './rpc';
+import { loadAccount } from './account';
 import { ERC20_ABI } from './abi';
 
 async function main() {
   await checkNetwork();
   const conf = getNetworkConfig();
-  const account = privateKeyToAccount(process.env.PRIVATE_KEY as `0x${string}`);
-  const pub = createPublicClient({ transport: http(conf.facetRpcUrl) });
+  if (!conf.tradingEnabled) throw new Error(`${conf.name} 网络没有 WETH/wFCT 交易对，无法查询代币余额`);
+  const account = await loadAccount();
+  const pub = createPublicClient({ transport: facetTransport() });
 
   const [eth, w, f, dw, df, sw, sf, allowW, allowF] = await Promise.all([
     pub.getBalance({ address: account.address }),
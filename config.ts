@@ -1,34 +1,225 @@
 // config.ts
 import 'dotenv/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { defineChain, type Chain } from 'viem';
+import { mainnet, sepolia } from 'viem/chains';
+
+export type NetworkName = string;
+
+// networks.json / networks.local.json 中单个网络的描述
+export type NetworkProfile = {
+  description?: string;
+  // 自定义网络可以继承已有网络，只写需要覆盖的字段
+  extends?: string;
+  l1: { chainId: number; name: string; rpcUrl: string; explorerUrl: string };
+  facet: { chainId: number; name: string; rpcUrl: string; explorerUrl: string };
+  tradingEnabled: boolean;
+  contracts: {
+    router?: `0x${string}`;
+    weth?: `0x${string}`;
+    wfct?: `0x${string}`;
+    fctWethPair?: `0x${string}`;
+  };
+  notes?: string[];
+};
+
+type PartialProfile = Partial<Omit<NetworkProfile, 'l1' | 'facet' | 'contracts'>> & {
+  l1?: Partial<NetworkProfile['l1']>;
+  facet?: Partial<NetworkProfile['facet']>;
+  contracts?: NetworkProfile['contracts'];
+};
+
+type LocalNetworkFile = {
+  active?: string;
+  profiles?: Record<string, PartialProfile>;
+};
 
 export type NetworkConfig = {
+  name: NetworkName;
+  description?: string;
+  l1Chain: Chain;
+  // 第一个 URL；多个 RPC（逗号分隔）时见 l1RpcUrls
+  l1RpcUrl: string;
+  l1RpcUrls: string[];
+  l1ExplorerUrl: string;
+  facetChain: Chain & { blockExplorers: NonNullable<Chain['blockExplorers']> };
   facetRpcUrl: string;
+  facetRpcUrls: string[];
   facetChainId: number;
+  facetExplorerUrl: string;
+  // 该网络是否有 WETH/wFCT 交易对（测试网没有）
+  tradingEnabled: boolean;
+  fctWethPair?: `0x${string}`;
   router: `0x${string}`;
   weth: `0x${string}`;
   wfct: `0x${string}`;
+  notes: string[];
 };
 
+export const NETWORKS_FILE = path.join(process.cwd(), 'networks.json');
+export const LOCAL_NETWORKS_FILE = path.join(process.cwd(), 'networks.local.json');
+
+const DEFAULT_NETWORK = 'mainnet';
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as const;
+const KNOWN_L1_CHAINS: Record<number, Chain> = { [mainnet.id]: mainnet, [sepolia.id]: sepolia };
+
 function assertHex20(name: string, v?: string): asserts v is `0x${string}` {
   if (!v || !/^0x[0-9a-fA-F]{40}$/.test(v)) throw new Error(`环境变量 ${name} 无效: ${v}`);
 }
 
-export function getNetworkConfig(): NetworkConfig {
-  const facetRpcUrl = process.env.FACET_RPC_URL || 'https://mainnet.facet.org';
-  const facetChainId = Number(process.env.FACET_CHAIN_ID);
-  if (!Number.isFinite(facetChainId)) throw new Error('请在 .env 设置 FACET_CHAIN_ID');
+function envAddress(name: string, def?: `0x${string}`): `0x${string}` | undefined {
+  const v = process.env[name]?.trim();
+  if (!v) return def;
+  assertHex20(name, v);
+  return v;
+}
 
-  const router = process.env.ROUTER as `0x${string}`;
-  const weth   = process.env.WETH   as `0x${string}`;
-  const wfct   = process.env.WFCT   as `0x${string}`;
-  for (const [k, v] of Object.entries({ ROUTER: router, WETH: weth, WFCT: wfct })) assertHex20(k, v);
+function splitUrls(name: string, v: string): string[] {
+  const urls = v.split(',').map((u) => u.trim()).filter(Boolean);
+  for (const u of urls) if (!/^https?:\/\//.test(u)) throw new Error(`${name} 中的 RPC 地址无效: ${u}`);
+  if (urls.length === 0) throw new Error(`${name} 为空`);
+  return urls;
+}
 
-  return { facetRpcUrl, facetChainId, router, weth, wfct };
+function readJson<T>(file: string, fallback: T): T {
+  if (!fs.existsSync(file)) return fallback;
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+  } catch (e: any) {
+    throw new Error(`${path.basename(file)} 解析失败: ${e?.message || e}`);
+  }
 }
 
-export function getCurrentNetwork() {
-  return 'facet-mainnet';
+export function readLocalNetworks(): LocalNetworkFile {
+  return readJson<LocalNetworkFile>(LOCAL_NETWORKS_FILE, {});
 }
+
+export function writeLocalNetworks(local: LocalNetworkFile) {
+  fs.writeFileSync(LOCAL_NETWORKS_FILE, JSON.stringify(local, null, 2) + '\n');
+}
+
+function mergeProfile(base: PartialProfile, over: PartialProfile): PartialProfile {
+  return {
+    ...base,
+    ...over,
+    l1: { ...base.l1, ...over.l1 },
+    facet: { ...base.facet, ...over.facet },
+    contracts: { ...base.contracts, ...over.contracts },
+  };
+}
+
+function validateProfile(name: string, p: PartialProfile): NetworkProfile {
+  const bad = (field: string) => new Error(`网络配置 ${name} 的 ${field} 无效`);
+  for (const side of ['l1', 'facet'] as const) {
+    const s = p[side];
+    if (!s || !Number.isInteger(s.chainId)) throw bad(`${side}.chainId`);
+    if (!s.name) throw bad(`${side}.name`);
+    if (!s.rpcUrl) throw bad(`${side}.rpcUrl`);
+    if (!s.explorerUrl) throw bad(`${side}.explorerUrl`);
+  }
+  for (const [k, v] of Object.entries(p.contracts ?? {})) {
+    if (v != null && !/^0x[0-9a-fA-F]{40}$/.test(v)) throw bad(`contracts.${k}`);
+  }
+  return { ...p, tradingEnabled: !!p.tradingEnabled, contracts: p.contracts ?? {} } as NetworkProfile;
+}
+
+// 内置网络（networks.json）+ 本地自定义网络（networks.local.json），后者可覆盖前者
+export function loadNetworkProfiles(): Record<NetworkName, NetworkProfile> {
+  const builtin = readJson<Record<string, PartialProfile>>(NETWORKS_FILE, {});
+  const custom = readLocalNetworks().profiles ?? {};
+  const raw: Record<string, PartialProfile> = { ...builtin };
+  for (const [name, p] of Object.entries(custom)) raw[name] = raw[name] ? mergeProfile(raw[name], p) : p;
+
+  const resolve = (name: string, seen: string[]): PartialProfile => {
+    const p = raw[name];
+    if (!p) throw new Error(`未知网络: ${name}`);
+    if (!p.extends) return p;
+    if (seen.includes(p.extends)) throw new Error(`网络配置循环继承: ${[...seen, p.extends].join(' -> ')}`);
+    return mergeProfile(resolve(p.extends, [...seen, p.extends]), { ...p, extends: undefined });
+  };
+
+  const out: Record<NetworkName, NetworkProfile> = {};
+  for (const name of Object.keys(raw)) out[name] = validateProfile(name, resolve(name, [name]));
+  return out;
+}
+
+export function listNetworks(): NetworkName[] {
+  return Object.keys(loadNetworkProfiles());
+}
+
+// 当前网络来源：环境变量 NETWORK > networks.local.json 的 active > 默认 mainnet
+export function getActiveNetworkSource(): { name: NetworkName; source: 'env' | 'local' | 'default' } {
+  const env = process.env.NETWORK?.trim().toLowerCase();
+  if (env) return { name: env, source: 'env' };
+  const active = readLocalNetworks().active;
+  if (active) return { name: active, source: 'local' };
+  return { name: DEFAULT_NETWORK, source: 'default' };
+}
+
+export function getCurrentNetwork(): NetworkName {
+  const { name } = getActiveNetworkSource();
+  const profiles = loadNetworkProfiles();
+  if (!profiles[name]) {
+    throw new Error(`网络 ${name} 无效（可选: ${Object.keys(profiles).join(', ')}）`);
+  }
+  return name;
+}
+
 export function isMainnet() {
-  return true;
+  return getNetworkConfig().l1Chain.id === mainnet.id;
+}
+
+export function getNetworkConfig(name: NetworkName = getCurrentNetwork()): NetworkConfig {
+  const p = loadNetworkProfiles()[name];
+  if (!p) throw new Error(`未知网络: ${name}`);
+
+  // L1_RPC_URL / FACET_RPC_URL 可填多个，逗号分隔，用于故障切换
+  const l1RpcUrls = splitUrls('L1_RPC_URL', process.env.L1_RPC_URL || p.l1.rpcUrl);
+  const facetRpcUrls = splitUrls('FACET_RPC_URL', process.env.FACET_RPC_URL || p.facet.rpcUrl);
+  const facetChainId = process.env.FACET_CHAIN_ID ? Number(process.env.FACET_CHAIN_ID) : p.facet.chainId;
+  if (!Number.isInteger(facetChainId)) throw new Error(`环境变量 FACET_CHAIN_ID 无效: ${process.env.FACET_CHAIN_ID}`);
+
+  const router = envAddress('ROUTER', p.contracts.router);
+  const weth   = envAddress('WETH', p.contracts.weth);
+  const wfct   = envAddress('WFCT', p.contracts.wfct);
+  if (p.tradingEnabled) {
+    for (const [k, v] of Object.entries({ ROUTER: router, WETH: weth, WFCT: wfct })) assertHex20(k, v);
+  }
+
+  const l1Chain = KNOWN_L1_CHAINS[p.l1.chainId] ?? defineChain({
+    id: p.l1.chainId,
+    name: p.l1.name,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: l1RpcUrls } },
+    blockExplorers: { default: { name: `${p.l1.name} Explorer`, url: p.l1.explorerUrl } },
+  });
+
+  const facetChain = defineChain({
+    id: facetChainId,
+    name: p.facet.name,
+    nativeCurrency: { name: 'Facet Compute Token', symbol: 'FCT', decimals: 18 },
+    rpcUrls: { default: { http: facetRpcUrls } },
+    blockExplorers: { default: { name: `${p.facet.name} Explorer`, url: p.facet.explorerUrl } },
+  });
+
+  return {
+    name,
+    description: p.description,
+    l1Chain,
+    l1RpcUrl: l1RpcUrls[0],
+    l1RpcUrls,
+    l1ExplorerUrl: p.l1.explorerUrl,
+    facetChain,
+    facetRpcUrl: facetRpcUrls[0],
+    facetRpcUrls,
+    facetChainId,
+    facetExplorerUrl: p.facet.explorerUrl,
+    tradingEnabled: p.tradingEnabled,
+    fctWethPair: envAddress('FCT_WETH_PAIR', p.contracts.fctWethPair),
+    router: router ?? ZERO_ADDRESS,
+    weth: weth ?? ZERO_ADDRESS,
+    wfct: wfct ?? ZERO_ADDRESS,
+    notes: p.notes ?? [],
+  };
 }
@@ -0,0 +1,356 @@
+#!/usr/bin/env tsx
+import * as fs from "fs";
+import * as path from "path";
+import { execSync } from "child_process";
+import { createPublicClient, formatEther } from "viem";
+import chalk from "chalk";
+import {
+  getNetworkConfig,
+  listNetworks,
+  readLocalNetworks,
+  writeLocalNetworks,
+  type NetworkConfig,
+} from "./config";
+import { checkNetwork } from "./check-network";
+import { getRpcPools, formatEndpoint } from "./rpc";
+import { fetchEthPriceUsd, fetchFctPerEth, fetchFctWethPair, ETH_PRICE_API_URL } from "./price";
+import { validateMinerConfig } from "./miner-config";
+import { prompt, promptHidden } from "./prompt";
+import { loadAccounts, describeAccountSource, DEFAULT_HD_PATH } from "./account";
+import { remoteSignerOptionsFromEnv } from "./signer";
+import { encryptKeystore, DEFAULT_KEYSTORE_DIR } from "./keystore";
+
+type Status = "pass" | "warn" | "fail";
+
+interface CheckResult {
+  status: Status;
+  name: string;
+  detail: string;
+}
+
+const results: CheckResult[] = [];
+
+function report(status: Status, name: string, detail: string) {
+  results.push({ status, name, detail });
+}
+
+function errorText(error: any): string {
+  return (error?.shortMessage || error?.message || String(error)).split("\n")[0];
+}
+
+// -------- Environment variable rules --------
+// Miner settings and the numeric settings of the other scripts are declared
+// and validated in miner-config.ts; these cover what its schema cannot.
+
+type EnvRule = {
+  name: string;
+  kind: "key";
+  required?: boolean;
+};
+
+const ENV_RULES: EnvRule[] = [{ name: "PRIVATE_KEY", kind: "key" }];
+
+function validateEnvRule(rule: EnvRule, raw: string): string | null {
+  const v = raw.trim();
+  switch (rule.kind) {
+    case "key":
+      return v.split(",").every((k) => /^0x[0-9a-fA-F]{64}$/.test(k.trim())) ? null : "expected 0x + 64 hex chars";
+  }
+}
+
+function checkEnvVars() {
+  let problems = 0;
+  for (const rule of ENV_RULES) {
+    const raw = process.env[rule.name];
+    if (raw == null || raw.trim() === "") {
+      if (rule.required) {
+        report("fail", rule.name, "missing");
+        problems++;
+      }
+      continue;
+    }
+    const error = validateEnvRule(rule, raw);
+    if (error) {
+      report("fail", rule.name, `${rule.kind === "key" ? "(hidden)" : raw} — ${error}`);
+      problems++;
+    }
+  }
+
+  const miner = validateMinerConfig();
+  for (const error of miner.errors) {
+    report("fail", "Setting", error);
+    problems++;
+  }
+  for (const warning of miner.warnings) report("warn", "Unknown setting", warning);
+
+  const env = process.env;
+  if (Number(env.CANCEL_FROM_NONCE) > Number(env.CANCEL_TO_NONCE)) {
+    report("warn", "CANCEL_FROM_NONCE", "greater than CANCEL_TO_NONCE; cancel-range will do nothing");
+  }
+
+  if (problems === 0) report("pass", "Environment variables", "all set values are valid");
+}
+
+// -------- Local setup --------
+
+function checkNode() {
+  const version = process.versions.node;
+  const major = Number(version.split(".")[0]);
+  if (major < 18) report("fail", "Node.js", `v${version} (18+ required)`);
+  else report("pass", "Node.js", `v${version}`);
+}
+
+function checkPackageManager() {
+  try {
+    const version = execSync("pnpm -v", { stdio: ["ignore", "pipe", "ignore"] }).toString().trim();
+    report("pass", "pnpm", `v${version}`);
+  } catch {
+    report("warn", "pnpm", "not found (recommended: npm i -g pnpm)");
+  }
+}
+
+function checkDependencies() {
+  if (fs.existsSync(path.join(process.cwd(), "node_modules"))) {
+    report("pass", "Dependencies", "node_modules present");
+  } else {
+    report("fail", "Dependencies", "not installed (run with --install or pnpm install)");
+  }
+}
+
+function checkEnvFile() {
+  if (fs.existsSync(path.join(process.cwd(), ".env"))) report("pass", ".env", "found");
+  else report("warn", ".env", "not found (run with --init-env to create one)");
+}
+
+// -------- Chain checks --------
+
+async function checkAccount(): Promise<`0x${string}` | null> {
+  const source = describeAccountSource();
+  try {
+    const [account, ...others] = await loadAccounts();
+    report(
+      source === "private-key" || (source === "mnemonic" && (process.env.MNEMONIC || process.env.MNEMONIC_FILE))
+        ? "warn"
+        : "pass",
+      "Account",
+      `${account.address}${others.length ? ` (+${others.length} more)` : ""} ` +
+        `(${
+          source === "remote-signer"
+            ? `remote signer ${remoteSignerOptionsFromEnv().url}`
+            : source === "keystore"
+              ? `keystore ${process.env.KEYSTORE_PATH}`
+              : source === "mnemonic"
+                ? `mnemonic ${process.env.HD_PATH || DEFAULT_HD_PATH}`
+                : "plaintext PRIVATE_KEY"
+        })`
+    );
+    return account.address;
+  } catch (error) {
+    report("fail", "Account", errorText(error));
+    return null;
+  }
+}
+
+async function checkChains(conf: NetworkConfig) {
+  const l1 = createPublicClient({ chain: conf.l1Chain, transport: getRpcPools().l1.transport() });
+  try {
+    const chainId = await l1.getChainId();
+    if (chainId === conf.l1Chain.id) report("pass", "L1 chain", `${conf.l1Chain.name} (id ${chainId})`);
+    else report("fail", "L1 chain", `RPC reports chainId ${chainId}, expected ${conf.l1Chain.id}`);
+  } catch (error) {
+    report("fail", "L1 chain", errorText(error));
+  }
+
+  try {
+    await checkNetwork({ silent: true });
+    report(
+      "pass",
+      "Facet chain",
+      `${conf.facetChain.name} (id ${conf.facetChainId})${conf.tradingEnabled ? ", ROUTER/WETH/WFCT have code" : ""}`
+    );
+  } catch (error) {
+    report("fail", "Facet chain", errorText(error));
+  }
+
+  for (const pool of Object.values(getRpcPools())) {
+    const health = await pool.probe();
+    const down = health.filter((h) => h.blockNumber == null);
+    const current = formatEndpoint(pool.current());
+    if (down.length === health.length) report("fail", `${pool.label} RPC`, "no endpoint reachable");
+    else if (down.length > 0) report("warn", `${pool.label} RPC`, `${down.length}/${health.length} endpoints unreachable; using ${current}`);
+    else report("pass", `${pool.label} RPC`, `${health.length} endpoint(s); using ${current}`);
+  }
+}
+
+async function checkBalances(conf: NetworkConfig, address: `0x${string}`) {
+  const l1 = createPublicClient({ chain: conf.l1Chain, transport: getRpcPools().l1.transport() });
+  const facet = createPublicClient({ chain: conf.facetChain, transport: getRpcPools().facet.transport() });
+
+  try {
+    const balance = await l1.getBalance({ address });
+    const eth = Number(formatEther(balance));
+    const min = validateMinerConfig().config.minBalanceEth;
+    if (balance === 0n) report("fail", "L1 balance", "0 ETH — nothing to mine with");
+    else if (min != null && eth < min)
+      report("warn", "L1 balance", `${formatEther(balance)} ETH < MIN_BALANCE_ETH ${min}; auto mode will wait`);
+    else report("pass", "L1 balance", `${formatEther(balance)} ETH`);
+  } catch (error) {
+    report("fail", "L1 balance", errorText(error));
+  }
+
+  try {
+    const balance = await facet.getBalance({ address });
+    report("pass", "Facet balance", `${formatEther(balance)} FCT`);
+  } catch (error) {
+    report("warn", "Facet balance", errorText(error));
+  }
+}
+
+async function checkPriceApi() {
+  try {
+    const price = await fetchEthPriceUsd();
+    report("pass", "ETH price API", `$${price.toFixed(2)}`);
+  } catch (error) {
+    report("warn", "ETH price API", `${ETH_PRICE_API_URL}: ${errorText(error)} (miner uses a fallback price)`);
+  }
+}
+
+async function checkFctPrice(conf: NetworkConfig) {
+  if (!conf.tradingEnabled) return;
+  const facet = createPublicClient({ chain: conf.facetChain, transport: getRpcPools().facet.transport() });
+  try {
+    const [pair, fctPerEth] = await Promise.all([fetchFctWethPair(facet, conf), fetchFctPerEth(facet, conf)]);
+    report("pass", "FCT price", `${fctPerEth.toFixed(2)} FCT/ETH; WETH/wFCT pair ${pair}${conf.fctWethPair ? "" : " (from the router's factory)"}`);
+  } catch (error) {
+    report("warn", "FCT price", `${errorText(error)} (cost/FCT comparisons and fctPriceUsd unavailable; set FCT_WETH_PAIR / ROUTER)`);
+  }
+}
+
+// -------- Optional setup actions --------
+
+async function initEnvFile(network?: string) {
+  const envPath = path.join(process.cwd(), ".env");
+  console.log(chalk.cyan("Creating/updating .env..."));
+
+  const pk = (await promptHidden("Enter private key (0x + 64 hex): ")).trim() as `0x${string}`;
+  if (!/^0x[0-9a-fA-F]{64}$/.test(pk)) {
+    console.error(chalk.red("Private key must be 0x + 64 hex chars"));
+    process.exit(1);
+  }
+  const password = await promptHidden("Keystore password: ");
+  if (!password || password !== (await promptHidden("Repeat password: "))) {
+    console.error(chalk.red("Passwords are empty or do not match"));
+    process.exit(1);
+  }
+
+  const networks = listNetworks();
+  let net = network;
+  if (!net) {
+    const input = await prompt(`Network [${networks.join("|")}] (default: sepolia): `);
+    net = (input || "sepolia").toLowerCase();
+  }
+  if (!networks.includes(net)) {
+    console.log(chalk.yellow(`Invalid network '${net}'. Using default: sepolia`));
+    net = "sepolia";
+  }
+
+  // The key goes into an encrypted keystore, never into .env
+  const keystore = encryptKeystore(pk, password);
+  const keystorePath = path.join(DEFAULT_KEYSTORE_DIR, `0x${keystore.address}.json`);
+  fs.mkdirSync(DEFAULT_KEYSTORE_DIR, { recursive: true });
+  fs.writeFileSync(keystorePath, JSON.stringify(keystore, null, 2) + "\n", { mode: 0o600 });
+
+  const content = [
+    `KEYSTORE_PATH=${path.relative(process.cwd(), keystorePath)}`,
+    "GAS_PRICE_MULTIPLIER=1.5",
+    "# L1_RPC_URL=",
+    "# FACET_RPC_URL=",
+  ].join("\n");
+  fs.writeFileSync(envPath, content + "\n", { mode: 0o600 });
+  writeLocalNetworks({ ...readLocalNetworks(), active: net });
+
+  // Make the rest of this run see the new values
+  process.env.KEYSTORE_PATH = keystorePath;
+  process.env.KEYSTORE_PASSWORD = password;
+  delete process.env.NETWORK;
+  console.log(chalk.green(`Keystore written to ${keystorePath}`));
+  console.log(chalk.green(`.env written; active network: ${net}`));
+}
+
+function installDependencies() {
+  console.log(chalk.cyan("Installing dependencies..."));
+  let manager = "npm";
+  try {
+    execSync("pnpm -v", { stdio: "ignore" });
+    manager = "pnpm";
+  } catch {}
+  execSync(`${manager} install`, { stdio: "inherit" });
+}
+
+// -------- Output --------
+
+function printTable() {
+  const icons: Record<Status, string> = {
+    pass: chalk.green("PASS"),
+    warn: chalk.yellow("WARN"),
+    fail: chalk.red("FAIL"),
+  };
+  const width = Math.max(...results.map((r) => r.name.length));
+
+  console.log("");
+  console.log(chalk.cyan("=== FCT Miner Doctor ==="));
+  for (const r of results) {
+    console.log(`  ${icons[r.status]}  ${r.name.padEnd(width)}  ${chalk.gray(r.detail)}`);
+  }
+
+  const count = (s: Status) => results.filter((r) => r.status === s).length;
+  console.log("");
+  console.log(
+    `  ${chalk.green(count("pass") + " passed")}, ${chalk.yellow(
+      count("warn") + " warnings"
+    )}, ${chalk.red(count("fail") + " failed")}`
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const networkIndex = args.indexOf("--network");
+  const networkArg = networkIndex >= 0 ? args[networkIndex + 1] : undefined;
+
+  if (args.includes("--install")) installDependencies();
+  if (args.includes("--init-env") || !fs.existsSync(path.join(process.cwd(), ".env"))) {
+    if (args.includes("--init-env") || process.stdin.isTTY) await initEnvFile(networkArg);
+  }
+
+  checkNode();
+  checkPackageManager();
+  checkDependencies();
+  checkEnvFile();
+  checkEnvVars();
+
+  let conf: NetworkConfig | null = null;
+  try {
+    conf = getNetworkConfig();
+    report("pass", "Network", `${conf.name}${conf.description ? ` — ${conf.description}` : ""}`);
+  } catch (error) {
+    report("fail", "Network", errorText(error));
+  }
+
+  const address = await checkAccount();
+  if (conf) {
+    await checkChains(conf);
+    if (address) await checkBalances(conf, address);
+    await checkFctPrice(conf);
+  }
+  await checkPriceApi();
+
+  printTable();
+  process.exit(results.some((r) => r.status === "fail") ? 1 : 0);
+}
+
+if (import.meta.main) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
@@ -1,27 +1,46 @@
 #!/usr/bin/env tsx
 import {
-  createWalletClient,
   createPublicClient,
-  http,
   formatEther,
   formatGwei,
+  parseEther,
+  parseGwei,
   toBytes,
-  toHex,
   maxUint256,
-  parseAbi,
 } from "viem";
-import { privateKeyToAccount } from "viem/accounts";
 import * as dotenv from "dotenv";
-import * as readline from "readline";
+import { prompt } from "./prompt";
+import { getNetworkConfig, getCurrentNetwork } from "./config";
+import { getRpcPools, l1Transport, facetTransport } from "./rpc";
+import { fetchEthPriceUsd, fetchFctPerEth } from "./price";
+import { loadAccounts } from "./account";
+import { WalletPool, shortAddress } from "./wallets";
 import {
-  calculateInputGasCost,
-  computeFacetTransactionHash,
-  getFctMintRate,
-  sendRawFacetTransaction,
-} from "@0xfacet/sdk/utils";
-import { FACET_INBOX_ADDRESS } from "@0xfacet/sdk/constants";
-import { compareMiningVsSwapping, getSwapQuote } from "./facet-swapper";
-import { getNetworkConfig, getCurrentNetwork, isMainnet } from "./config";
+  MAX_SIZE_KB,
+  MiningEngine,
+  OVERHEAD_BYTES,
+  type Gate,
+  type MiningEstimate,
+  type Reconciliation,
+  type SessionSummary,
+  type SizeOptimum,
+} from "./mining-engine";
+import { FeeStrategy } from "./fee-strategy";
+import { loadMinerConfig, printMinerConfig, type MinerConfigResult } from "./miner-config";
+import { formatMintRate } from "./mint-rate";
+import { formatGasOutlook } from "./gas-outlook";
+import { calldataGas, parsePayload } from "./payload";
+import { MiningJournal, readJournal, unsettledTransactions } from "./journal";
+import { describeWindowLimits, parseSchedule, type MiningWindow, type WindowOccurrence } from "./schedule";
+import { budgetLimits, formatBudgetStatus, SpendBudget } from "./budget";
+import {
+  DefaultStrategy,
+  loadStrategy,
+  type MiningDecision,
+  type MiningStrategy,
+  type StrategySnapshot,
+  type StrategyTools,
+} from "./strategy";
 import ui from "./enhanced-ui";
 import { MiningDashboard } from "./mining-dashboard";
 import chalk from "chalk";
@@ -31,77 +50,125 @@ dotenv.config();
 // Get network configuration
 const networkConfig = getNetworkConfig();
 
-// -------- Auto-mode helpers --------
-function envBool(name: string, def = false): boolean {
-  const v = (process.env[name] || "").toLowerCase().trim();
-  if (v === "1" || v === "true" || v === "yes" || v === "y") return true;
-  if (v === "0" || v === "false" || v === "no" || v === "n") return false;
-  return def;
+// -------- Auto-mode settings --------
+let minerConfig: MinerConfigResult;
+try {
+  minerConfig = loadMinerConfig();
+} catch (error: any) {
+  console.error(chalk.red(error.message));
+  process.exit(1);
 }
+for (const warning of minerConfig.warnings) console.warn(chalk.yellow(`Warning: ${warning}`));
 
-function envNumber(name: string, def?: number): number | undefined {
-  const v = process.env[name];
-  if (v == null || v.trim() === "") return def;
-  const n = Number(v);
-  return Number.isFinite(n) ? n : def;
-}
-function envInt(name: string, def?: number): number | undefined {
-  const v = process.env[name];
-  if (v == null || v.trim() === "") return def;
-  const n = parseInt(v, 10);
-  return Number.isFinite(n) ? n : def;
+if (process.argv.includes("--print-config")) {
+  printMinerConfig(minerConfig);
+  process.exit(0);
 }
 
-const AUTO_MODE = envBool("AUTO_MODE", false);
-const AUTO_LOOP = envBool("AUTO_LOOP", false);
-const AUTO_SIZE_KB = envNumber("SIZE_KB", 100) as number; // default 100KB
-const AUTO_SPEND_MODE = (process.env.SPEND_MODE || "cap").toLowerCase(); // 'all' | 'cap'
-const AUTO_SPEND_CAP_ETH = envNumber("SPEND_CAP_ETH"); // required if mode=cap
-const AUTO_TARGET_TXS = envInt("AUTO_TARGET_TXS"); // optional: derive cap from N txs
-const MAX_L1_GWEI = envNumber("MAX_L1_GWEI");
-const MAX_COST_PER_FCT_USD = envNumber("MAX_COST_PER_FCT_USD");
-const MIN_EFFICIENCY_PERCENT = envNumber("MIN_EFFICIENCY_PERCENT");
-const MIN_BALANCE_ETH = envNumber("MIN_BALANCE_ETH");
-const CHECK_INTERVAL_SEC = envNumber("CHECK_INTERVAL_SEC", 60) as number;
-const STOP_ON_TX_FAIL = envBool("STOP_ON_TX_FAIL", true);
-
-// Auto-tuning controls
-const AUTO_DYNAMIC_SIZE = envBool("AUTO_DYNAMIC_SIZE", true);
-const AUTO_RELAX_AFTER_CYCLES = (envInt("AUTO_RELAX_AFTER_CYCLES", 5) as number) || 5;
-const AUTO_RELAX_STEP_PERCENT = (envNumber("AUTO_RELAX_STEP_PERCENT", 10) as number) || 10; // each extra cycle
-const AUTO_MIN_SIZE_KB = (envInt("AUTO_MIN_SIZE_KB", 25) as number) || 25;
-const AUTO_MAX_SIZE_KB = (envInt("AUTO_MAX_SIZE_KB", 100) as number) || 100;
-const AUTO_SIZE_STEP_KB = 25;
-
-// Helper function to prompt user for input
-function prompt(question: string): Promise<string> {
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
-
+// --dry-run: live read-only chain data, simulated sends, nothing broadcast
+const DRY_RUN = process.argv.includes("--dry-run");
+
+const {
+  feeStrategy: FEE_STRATEGY,
+  targetInclusionSec: TARGET_INCLUSION_SEC,
+  feeHistoryBlocks: FEE_HISTORY_BLOCKS,
+  priorityFeePercentile: PRIORITY_FEE_PERCENTILE,
+  gasPriceMultiplier: GAS_PRICE_MULTIPLIER,
+  replaceAfterSec: REPLACE_AFTER_SEC,
+  bumpMultiplier: BUMP_MULTIPLIER,
+  replaceMaxGwei: REPLACE_MAX_GWEI,
+  autoMode: AUTO_MODE,
+  autoLoop: AUTO_LOOP,
+  sizeKb: AUTO_SIZE_KB,
+  spendMode: AUTO_SPEND_MODE,
+  spendCapEth: AUTO_SPEND_CAP_ETH,
+  autoTargetTxs: AUTO_TARGET_TXS,
+  maxL1Gwei: MAX_L1_GWEI,
+  maxCostPerFctUsd: MAX_COST_PER_FCT_USD,
+  maxBaseFeePercentile: MAX_BASE_FEE_PERCENTILE,
+  maxNextBaseFeeGwei: MAX_NEXT_BASE_FEE_GWEI,
+  baseFeeWindowHours: BASE_FEE_WINDOW_HOURS,
+  minEfficiencyPercent: MIN_EFFICIENCY_PERCENT,
+  minBalanceEth: MIN_BALANCE_ETH,
+  checkIntervalSec: CHECK_INTERVAL_SEC,
+  stopOnTxFail: STOP_ON_TX_FAIL,
+  maxInFlight: MAX_IN_FLIGHT,
+  // Auto-tuning controls
+  autoDynamicSize: AUTO_DYNAMIC_SIZE,
+  autoRelaxAfterCycles: AUTO_RELAX_AFTER_CYCLES,
+  autoRelaxStepPercent: AUTO_RELAX_STEP_PERCENT,
+  autoMinSizeKb: AUTO_MIN_SIZE_KB,
+  autoMaxSizeKb: AUTO_MAX_SIZE_KB,
+  // Mint-rate outlook
+  mintRateGate: MINT_RATE_GATE,
+  mintRateWindowBlocks: MINT_RATE_WINDOW_BLOCKS,
+  mintRateChangePercent: MINT_RATE_CHANGE_PERCENT,
+  mintPeriodBlocks: MINT_PERIOD_BLOCKS,
+  // Multi-wallet mining
+  walletRotation: WALLET_ROTATION,
+  walletSpendCapsEth: WALLET_SPEND_CAPS_ETH,
+  walletMinBalancesEth: WALLET_MIN_BALANCES_ETH,
+  // Windows, budgets, strategy and payload
+  miningWindows: MINING_WINDOWS,
+  miningTimezone: MINING_TIMEZONE,
+  budgetDaily: BUDGET_DAILY,
+  budgetWeekly: BUDGET_WEEKLY,
+  budgetMonthly: BUDGET_MONTHLY,
+  budgetLifetime: BUDGET_LIFETIME,
+  miningStrategy: MINING_STRATEGY,
+  minePayload: MINE_PAYLOAD,
+} = minerConfig.config;
+
+// Validated by loadMinerConfig. With windows, auto mode runs until stopped
+const schedule = MINING_WINDOWS ? parseSchedule(MINING_WINDOWS, MINING_TIMEZONE) : null;
+const AUTO_CONTINUOUS = AUTO_MODE && (AUTO_LOOP || schedule != null);
+const payload = parsePayload(MINE_PAYLOAD);
+
+/** Resolve on the next keypress; right away when stdin is not a terminal. */
+function waitForKeypress(): Promise<void> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) return Promise.resolve();
   return new Promise((resolve) => {
-    rl.question(question, (answer) => {
-      rl.close();
-      resolve(answer);
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.once("data", () => {
+      stdin.setRawMode(false);
+      stdin.pause();
+      resolve();
     });
   });
 }
 
-const PRIVATE_KEY = process.env.PRIVATE_KEY;
-if (!PRIVATE_KEY) {
-  console.error("Error: PRIVATE_KEY not found in .env file");
-  process.exit(1);
-}
-
-const account = privateKeyToAccount(PRIVATE_KEY as `0x${string}`);
+// Loaded in main(): a keystore may need a password prompt first
+let wallets: WalletPool;
+let engine: MiningEngine;
+const journal = new MiningJournal();
+// Validated by loadMinerConfig; with no budget set it allows everything
+const budget = new SpendBudget(
+  budgetLimits({ day: BUDGET_DAILY, week: BUDGET_WEEKLY, month: BUDGET_MONTHLY, lifetime: BUDGET_LIFETIME }),
+  getCurrentNetwork()
+);
+// Spend of transactions an earlier run left unsettled that were mined today.
+// Taken off the next explicit spend cap; balance-based caps already see it.
+let recoveredSpend = 0n;
+// Set by the first Ctrl+C / SIGTERM of a session; auto mode starts no new one
+let shuttingDown = false;
+
+const feeStrategy = new FeeStrategy({
+  mode: FEE_STRATEGY,
+  targetInclusionSec: TARGET_INCLUSION_SEC,
+  historyBlocks: FEE_HISTORY_BLOCKS,
+  percentile: PRIORITY_FEE_PERCENTILE,
+  gasPriceMultiplier: GAS_PRICE_MULTIPLIER,
+});
 
 // FCT max supply in wei
 const FCT_MAX_SUPPLY = 1646951661163841381479607357n;
 
+// Both clients fail over between the comma-separated RPC URLs
 const publicClient = createPublicClient({
   chain: networkConfig.l1Chain,
-  transport: http(networkConfig.l1RpcUrl),
+  transport: l1Transport(),
 });
 
 // Get Facet chain configuration from network config
@@ -109,39 +176,12 @@ const facetChain = networkConfig.facetChain;
 
 const facetClient = createPublicClient({
   chain: facetChain,
-  transport: http(networkConfig.facetRpcUrl),
-});
-
-const walletClient = createWalletClient({
-  account,
-  chain: networkConfig.l1Chain,
-  transport: http(networkConfig.l1RpcUrl),
+  transport: facetTransport(),
 });
 
-// Uniswap V2 pairs (mainnet only for FCT trading)
-const FCT_WETH_PAIR = networkConfig.fctWethPair;
-
-const UNISWAP_V2_PAIR_ABI = parseAbi([
-  "function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
-  "function token0() external view returns (address)",
-  "function token1() external view returns (address)",
-]);
-
 async function getEthPriceInUsd(): Promise<number> {
   try {
-    // Use Facet's ETH price API
-    const response = await fetch("https://eth-price.facet.org");
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    const data = await response.json();
-    const price = parseFloat(data.priceInUSD);
-
-    if (isNaN(price) || price <= 0) {
-      throw new Error("Invalid price data received");
-    }
-
-    return price;
+    return await fetchEthPriceUsd();
   } catch (error) {
     console.error("Failed to fetch ETH price from Facet API:", error);
     console.log("Using fallback ETH price");
@@ -149,92 +189,6 @@ async function getEthPriceInUsd(): Promise<number> {
   }
 }
 
-async function getFctMarketPrice(): Promise<{
-  priceInEth: bigint;
-  priceInUsd: number;
-} | null> {
-  if (!isMainnet() || !FCT_WETH_PAIR) {
-    console.log("FCT market price not available on testnet");
-    return null;
-  }
-
-  try {
-    // Get token addresses to determine order
-    const [token0, token1] = await Promise.all([
-      facetClient.readContract({
-        address: FCT_WETH_PAIR as `0x${string}`,
-        abi: UNISWAP_V2_PAIR_ABI,
-        functionName: "token0",
-      }),
-      facetClient.readContract({
-        address: FCT_WETH_PAIR as `0x${string}`,
-        abi: UNISWAP_V2_PAIR_ABI,
-        functionName: "token1",
-      }),
-    ]);
-
-    // Get reserves
-    const [reserve0, reserve1] = await facetClient.readContract({
-      address: FCT_WETH_PAIR as `0x${string}`,
-      abi: UNISWAP_V2_PAIR_ABI,
-      functionName: "getReserves",
-    });
-
-    // Token0 is WETH (0x1673540243E793B0e77C038D4a88448efF524DcE)
-    // Token1 is wrapped FCT (0x4200000000000000000000000000000000000006)
-    // Based on the debug output, we know:
-    // Reserve0 = WETH reserve (small amount)
-    // Reserve1 = FCT reserve (large amount)
-
-    const wethReserve = reserve0; // WETH is token0
-    const fctReserve = reserve1; // FCT is token1
-
-    if (fctReserve === 0n || wethReserve === 0n) {
-      return null;
-    }
-
-    // Calculate price: ETH per FCT (how much ETH to buy 1 FCT)
-    const priceInEth = (wethReserve * 10n ** 18n) / fctReserve;
-
-    // Get ETH price for USD conversion
-    const ethPrice = await getEthPriceInUsd();
-    const priceInUsd = Number(formatEther(priceInEth)) * ethPrice;
-
-    return { priceInEth, priceInUsd };
-  } catch (error) {
-    console.error("Failed to fetch FCT market price:", error);
-    return null;
-  }
-}
-
-function createMineBoostData(sizeInBytes: number): Uint8Array {
-  const data = new Uint8Array(sizeInBytes);
-  const pattern = "FACETMINE";
-  const encoder = new TextEncoder();
-  const patternBytes = encoder.encode(pattern);
-
-  for (let i = 0; i < data.length; i++) {
-    data[i] = patternBytes[i % patternBytes.length];
-  }
-
-  return data;
-}
-
-function calculateDataGas(data: Uint8Array): bigint {
-  let zeroBytes = 0n;
-  let nonZeroBytes = 0n;
-
-  for (const byte of data) {
-    if (byte === 0) {
-      zeroBytes++;
-    } else {
-      nonZeroBytes++;
-    }
-  }
-
-  return zeroBytes * 10n + nonZeroBytes * 40n;
-}
-
 function formatCostPerFct(ethPerFct: bigint, ethPriceUsd: number): string {
   const ethAmount = Number(formatEther(ethPerFct));
   const usdAmount = ethAmount * ethPriceUsd;
@@ -248,10 +202,32 @@ function formatCostPerFct(ethPerFct: bigint, ethPriceUsd: number): string {
   }
 }
 
+/** "100KB", or "127.84KB" for a size between whole KB. */
+function formatSize(sizeBytes: number): string {
+  return `${Number((sizeBytes / 1024).toFixed(2))}KB`;
+}
+
+/** The optimizer's cost curve: cost/FCT, mint and cost per transaction by size. */
+function showCostCurve(optimum: SizeOptimum, ethPriceUsd: number) {
+  const { best, curve } = optimum;
+  console.log(chalk.cyan(`\nCost per FCT by size (block ${best.snapshot.blockNumber}, ${optimum.searched} sizes compared):`));
+  for (const point of curve) {
+    const isBest = point.sizeBytes === best.sizeBytes;
+    const costUsd = Number(formatEther(point.estimatedEthBurn)) * ethPriceUsd;
+    const line =
+      `  ${formatSize(point.sizeBytes).padStart(9)}  $${point.costPerFctUsd.toFixed(6)}/FCT` +
+      `  eff ${point.efficiencyPercent.toFixed(1).padStart(4)}%` +
+      `  ~${Number(formatEther(point.fctMintAmount)).toFixed(0).padStart(4)} FCT` +
+      `  $${costUsd.toFixed(2).padStart(5)}/tx`;
+    console.log(isBest ? chalk.green(`${line}  <- optimal`) : line);
+  }
+  console.log();
+}
+
 async function selectMiningSize(
   ethPriceUsd: number
 ): Promise<{ selectedSize: number; estimatedCostPerTx: bigint } | null> {
-  // Define size options (capped at 100KB)
+  // Define size options (capped at the 128KB transaction size limit)
   const sizeOptions = [
     { label: "Small", size: 25 * 1024, kb: 25 },
     { label: "Medium", size: 50 * 1024, kb: 50 },
@@ -259,52 +235,42 @@ async function selectMiningSize(
     { label: "XL", size: 100 * 1024, kb: 100 },
   ];
 
-  // Get current base fee for estimates (same as actual transaction)
-  const currentBlock = await publicClient.getBlock();
-  const baseFee = currentBlock.baseFeePerGas || 0n;
-  const gasPriceMultiplier = Number(process.env.GAS_PRICE_MULTIPLIER) || 1.5;
-  const adjustedBaseFee = BigInt(
-    Math.floor(Number(baseFee) * gasPriceMultiplier)
-  );
-
-  // Get FCT mint rate
-  const fctMintRate = await getFctMintRate(networkConfig.l1Chain.id);
+  // All options and the curve are quoted from the same block (same base fee and mint rate)
+  const snapshot = await engine.snapshot();
+  const optimum = engine.optimizeSize(snapshot, ethPriceUsd, { minBytes: 1024 });
+  if (optimum) showCostCurve(optimum, ethPriceUsd);
 
   // Calculate and display each option
   const optionCosts: bigint[] = [];
   for (let i = 0; i < sizeOptions.length; i++) {
     const option = sizeOptions[i];
-    const overheadBytes = 160;
-    const mineBoostSize = option.size - overheadBytes;
-
-    // Estimate gas costs
-    const baseExecutionGas = 21000n;
-    const estimatedInputCostGas =
-      calculateInputGasCost(new Uint8Array(mineBoostSize).fill(70)) +
-      baseExecutionGas; // Use 'F' (70) as non-zero byte
-    const estimatedEthBurn = estimatedInputCostGas * adjustedBaseFee;
-    const inputCostWei = estimatedInputCostGas * baseFee;
-    const fctMintAmount = inputCostWei * fctMintRate;
+    const est = engine.quote(option.size, ethPriceUsd, snapshot);
 
-    optionCosts.push(estimatedEthBurn);
+    optionCosts.push(est.estimatedEthBurn);
 
-    const costEth = Number(formatEther(estimatedEthBurn));
+    const costEth = Number(formatEther(est.estimatedEthBurn));
     const costUsd = costEth * ethPriceUsd;
-    const fctAmount = Number(formatEther(fctMintAmount));
-    const costPerFct = fctAmount > 0 ? costUsd / fctAmount : 0;
+    const fctAmount = Number(formatEther(est.fctMintAmount));
 
     console.log(
       `  ${i + 1}. ${option.label.padEnd(8)} (${option.kb}KB)  - ${formatEther(
-        estimatedEthBurn
+        est.estimatedEthBurn
       ).padStart(8)} ETH ($${costUsd.toFixed(2).padStart(5)}), ~${fctAmount
         .toFixed(0)
         .padStart(4)} FCT`
     );
   }
 
-  console.log(`  5. Custom     (specify KB, max 100)`);
+  if (optimum) {
+    const { best } = optimum;
+    console.log(
+      `  5. Optimal  (${formatSize(best.sizeBytes)}) - ${formatEther(best.estimatedEthBurn).padStart(8)} ETH, ` +
+        formatCostPerFct(best.ethPerFct, ethPriceUsd)
+    );
+  }
+  console.log(`  6. Custom     (specify KB, max ${MAX_SIZE_KB})`);
 
-  const choice = await prompt("\nChoose option (1-5): ");
+  const choice = await prompt("\nChoose option (1-6): ");
 
   if (choice === "1" || choice === "2" || choice === "3" || choice === "4") {
     const selectedIndex = parseInt(choice) - 1;
@@ -314,30 +280,28 @@ async function selectMiningSize(
       selectedSize: selectedOption.size,
       estimatedCostPerTx: optionCosts[selectedIndex],
     };
-  } else if (choice === "5") {
-    const customInput = await prompt("Enter KB size (1-100): ");
+  } else if (choice === "5" && optimum) {
+    ui.showMiningSelection("Optimal", formatSize(optimum.best.sizeBytes));
+    return {
+      selectedSize: optimum.best.sizeBytes,
+      estimatedCostPerTx: optimum.best.estimatedEthBurn,
+    };
+  } else if (choice === "6") {
+    const customInput = await prompt(`Enter KB size (1-${MAX_SIZE_KB}): `);
     const customKb = parseInt(customInput);
 
-    if (isNaN(customKb) || customKb < 1 || customKb > 100) {
-      console.log("Invalid size. Must be between 1-100 KB");
+    if (isNaN(customKb) || customKb < 1 || customKb > MAX_SIZE_KB) {
+      console.log(`Invalid size. Must be between 1-${MAX_SIZE_KB} KB`);
       return null;
     }
 
     const customSize = customKb * 1024;
-
-    // Calculate cost for custom size
-    const overheadBytes = 160;
-    const mineBoostSize = customSize - overheadBytes;
-    const baseExecutionGas = 21000n;
-    const estimatedInputCostGas =
-      calculateInputGasCost(new Uint8Array(mineBoostSize).fill(70)) +
-      baseExecutionGas;
-    const estimatedEthBurn = estimatedInputCostGas * adjustedBaseFee;
+    const est = engine.quote(customSize, ethPriceUsd, snapshot);
 
     ui.showMiningSelection("Custom", customKb + "KB");
     return {
       selectedSize: customSize,
-      estimatedCostPerTx: estimatedEthBurn,
+      estimatedCostPerTx: est.estimatedEthBurn,
     };
   } else {
     console.log("Invalid choice");
@@ -345,622 +309,470 @@ async function selectMiningSize(
   }
 }
 
-async function getEstimatesForSizeKb(kb: number, ethPriceUsd: number) {
-  const customKb = Math.min(Math.max(Math.floor(kb), 1), 100);
-  const customSize = customKb * 1024;
-
-  const currentBlock = await publicClient.getBlock();
-  const baseFee = currentBlock.baseFeePerGas || 0n;
-  const gasPriceMultiplier = Number(process.env.GAS_PRICE_MULTIPLIER) || 1.5;
-  const adjustedBaseFee = BigInt(Math.floor(Number(baseFee) * gasPriceMultiplier));
-
-  const overheadBytes = 160;
-  const mineBoostSize = customSize - overheadBytes;
-
-  const baseExecutionGas = 21000n;
-  const estimatedInputCostGas =
-    calculateInputGasCost(new Uint8Array(mineBoostSize).fill(70)) + baseExecutionGas;
-  const estimatedEthBurn = estimatedInputCostGas * adjustedBaseFee;
-
-  const inputCostWei = (estimatedInputCostGas - baseExecutionGas) * baseFee;
-  const fctMintRate = await getFctMintRate(networkConfig.l1Chain.id);
-  const fctMintAmount = inputCostWei * fctMintRate;
+// Plain log lines for each transaction when there is no terminal to draw the
+// dashboard on (e.g. auto mode under a process manager)
+function attachConsoleReporter(engine: MiningEngine): () => void {
+  const detachers = [
+    engine.on("estimate", ({ estimate: est, wallet }) => {
+      if (!wallet) return;
+      const ethPriceUsd = est.ethPriceUsd;
+      console.log(`\nMining ${est.kb}KB from ${wallet.account.address}`);
+      console.log(
+        "  Data gas:",
+        calldataGas(est.payload, "standard").toString(),
+        "gas standard,",
+        calldataGas(est.payload, "floor").toString(),
+        "gas floor",
+        `(${payload.spec})`
+      );
+      console.log("  Estimated L1 gas:", est.inputGas.toString(), "gas");
+      console.log("  Base fee:", formatGwei(est.baseFee), "gwei");
+      console.log("  Expected gas price:", formatGwei(est.effectiveGasPrice), "gwei", `(${feeStrategy.describe()})`);
+      console.log(
+        "  ETH to burn:",
+        formatEther(est.estimatedEthBurn),
+        "ETH",
+        `($${(Number(formatEther(est.estimatedEthBurn)) * ethPriceUsd).toFixed(2)})`
+      );
+      console.log("  FCT to mint:", formatEther(est.fctMintAmount), "FCT");
+      console.log("  Cost per FCT (USD):", formatCostPerFct(est.ethPerFct, ethPriceUsd));
+      console.log(
+        "  Mining efficiency:",
+        `${est.efficiencyPercent.toFixed(1)}%`,
+        `(${(100 - est.efficiencyPercent).toFixed(1)}% overhead)`
+      );
+    }),
+    engine.on("submitted", (tx) => {
+      if (tx.fees.mode === "legacy") {
+        console.log("  Gas price:", formatGwei(tx.fees.maxFeePerGas), "gwei");
+      } else {
+        console.log(
+          "  Max fee / tip:",
+          formatGwei(tx.fees.maxFeePerGas),
+          "/",
+          formatGwei(tx.fees.maxPriorityFeePerGas),
+          "gwei"
+        );
+      }
+      if (tx.simulated) console.log("  Simulated: not broadcast (placeholder hashes below)");
+      console.log("  L1 transaction hash:", tx.l1Hash);
+      console.log("  L1 transaction nonce:", tx.nonce);
+      console.log("  Facet transaction hash:", tx.facetHash);
+      console.log("  Waiting for Facet confirmation...");
+    }),
+    engine.on("replaced", ({ submitted, attempt }) => {
+      const label = attempt.kind === "cancel" ? "Cancel" : "Replacement";
+      const fees =
+        attempt.fees.mode === "legacy"
+          ? `gas price ${formatGwei(attempt.fees.maxFeePerGas)} gwei`
+          : `max fee ${formatGwei(attempt.fees.maxFeePerGas)} / tip ${formatGwei(attempt.fees.maxPriorityFeePerGas)} gwei`;
+      if (attempt.l1Hash) {
+        console.log(`  ${label} for nonce ${submitted.nonce} (${fees}):`, attempt.l1Hash);
+      } else {
+        console.log(`  ${label} for nonce ${submitted.nonce} rejected (${fees}): ${attempt.error}`);
+      }
+    }),
+    engine.on("confirmed", (result) => {
+      if (MAX_IN_FLIGHT > 1) {
+        console.log(`\nConfirmed nonce ${result.nonce} from ${result.wallet.account.address}`);
+      }
+      if (!result.mintReported) {
+        console.log("  Warning: Could not find mint field on the Facet transaction");
+      }
+      const ethPriceUsd = result.estimate.ethPriceUsd;
+      console.log("  Facet block:", result.simulated ? "(simulated)" : result.facetBlock);
+      console.log("  L1 block:", result.cost.l1Block, "gas used:", result.cost.gasUsed.toString());
+      console.log(
+        "  ETH spent:",
+        formatEther(result.ethSpent),
+        "ETH",
+        `($${(Number(formatEther(result.ethSpent)) * ethPriceUsd).toFixed(2)})`
+      );
+      console.log("    Base fee burned:", formatEther(result.cost.baseFeeBurned), "ETH");
+      console.log("    Priority tip:", formatEther(result.cost.priorityFee), "ETH");
+      console.log("  FCT minted:", formatEther(result.fctMinted), "FCT");
+      console.log("  Actual cost per FCT (USD):", formatCostPerFct(result.costPerFct, ethPriceUsd));
+    }),
+    engine.on("failed", (failure) => {
+      const message = failure.error instanceof Error ? failure.error.message : String(failure.error);
+      if (failure.stage === "confirm") {
+        console.log(`  Facet confirmation failed for nonce ${failure.nonce} (${message})`);
+        if (failure.cost) console.log("  L1 cost (mined on L1):", formatEther(failure.cost.total), "ETH");
+        console.log("  L1 transaction may have failed or Facet indexing is delayed");
+      } else {
+        console.error(`  Transaction failed at ${failure.stage}:`, message);
+      }
+    }),
+    engine.on("gapCancel", ({ wallet, nonce, attempt, cost }) => {
+      if (!cost) console.log(`  Cancel filling nonce gap ${nonce} of ${wallet.account.address}:`, attempt.l1Hash);
+      else console.log(`  Gap cancel for nonce ${nonce} mined in L1 block ${cost.l1Block}:`, formatEther(cost.total), "ETH");
+    }),
+    engine.on("state", (state) => {
+      if (state === "paused") console.log(chalk.yellow("\nPaused: no new transactions until resumed (SIGUSR2 or \"p\")"));
+      else if (state === "running") console.log(chalk.green("\nResumed"));
+      else console.log(chalk.yellow("\nStopping: waiting for in-flight transactions (signal again to exit now)"));
+    }),
+  ];
+  return () => detachers.forEach((detach) => detach());
+}
 
-  const ethPerFct = fctMintAmount > 0n ? (estimatedEthBurn * 10n ** 18n) / fctMintAmount : 0n;
-  const costPerFctUsd = Number(formatEther(ethPerFct)) * ethPriceUsd;
+function formatGate(gate: Gate): string {
+  const relaxed = (configured: number | undefined, text: string) =>
+    configured != null && gate.limit !== configured ? ` (relaxed to ${text})` : "";
+  switch (gate.rule) {
+    case "balance":
+      return `Balance below MIN_BALANCE_ETH on every wallet (${wallets.wallets
+        .map((w) => `${shortAddress(w.account.address)} ${formatEther(w.balance)} < ${formatEther(w.minBalance)}`)
+        .join(", ")})`;
+    case "gas":
+      return `L1 gas ${gate.actual} gwei > MAX_L1_GWEI ${MAX_L1_GWEI}${relaxed(MAX_L1_GWEI, `${gate.limit.toFixed(2)} gwei`)}`;
+    case "basePercentile":
+      return `${gate.message} (${BASE_FEE_WINDOW_HOURS}h): ${gate.actual.toFixed(2)} > ${gate.limit.toFixed(2)} gwei (MAX_BASE_FEE_PERCENTILE=${MAX_BASE_FEE_PERCENTILE})`;
+    case "nextBaseFee":
+      return `Next base fee ${gate.actual.toFixed(2)} gwei > MAX_NEXT_BASE_FEE_GWEI ${MAX_NEXT_BASE_FEE_GWEI}${relaxed(
+        MAX_NEXT_BASE_FEE_GWEI,
+        `${gate.limit.toFixed(2)} gwei`
+      )}`;
+    case "efficiency":
+      return `Efficiency ${gate.actual.toFixed(1)}% < MIN_EFFICIENCY_PERCENT ${MIN_EFFICIENCY_PERCENT}${relaxed(
+        MIN_EFFICIENCY_PERCENT,
+        `${gate.limit.toFixed(1)}%`
+      )}`;
+    case "mintRate":
+      return `FCT mint rate forecast +${gate.actual.toFixed(1)}% within ${MINT_RATE_WINDOW_BLOCKS} blocks (MINT_RATE_GATE=${MINT_RATE_GATE})`;
+    case "cost":
+      return `Cost/FCT $${gate.actual.toFixed(6)} > MAX_COST_PER_FCT_USD $${MAX_COST_PER_FCT_USD}${relaxed(
+        MAX_COST_PER_FCT_USD,
+        `$${gate.limit.toFixed(6)}`
+      )}`;
+  }
+}
 
-  const efficiencyPercent =
-    (Number(estimatedInputCostGas - baseExecutionGas) / Number(estimatedInputCostGas)) * 100;
+function showBudgets() {
+  if (budget.limits.length === 0) return;
+  console.log(chalk.cyan(`Spend budgets (${budget.file}):`));
+  for (const status of budget.status()) console.log(chalk.gray(`  ${formatBudgetStatus(status)}`));
+}
 
-  return {
-    sizeBytes: customSize,
-    estimatedEthBurn,
-    fctMintAmount,
-    ethPerFct,
-    costPerFctUsd,
-    efficiencyPercent,
-    baseFee,
-    adjustedBaseFee,
-  };
+function showDryRunBanner() {
+  if (DRY_RUN) {
+    console.log(chalk.magenta.bold("DRY RUN: live chain data, simulated transactions; nothing will be broadcast"));
+  }
 }
 
-type SizeEstimate = Awaited<ReturnType<typeof getEstimatesForSizeKb>> & { kb: number };
+/** Resolve what an earlier run submitted but never saw settle, before anything new is sent. */
+async function recoverUnsettled() {
+  const entries = readJournal(journal.file);
+  const unsettled = unsettledTransactions(entries);
+  if (unsettled.length === 0) return;
+  const sessionPrices = new Map<string | null, number>();
+  for (const entry of entries) {
+    if (entry.event === "session-start") sessionPrices.set(entry.session, entry.ethPriceUsd);
+  }
+  console.log(chalk.cyan(`Reconciling ${unsettled.length} unsettled transaction(s) from an earlier run...`));
 
-async function pickBestSizeAndEstimates(
-  ethPriceUsd: number,
-  opts: {
-    maxCostPerFctUsd?: number;
-    minEfficiencyPercent?: number;
-    minKb?: number;
-    maxKb?: number;
-  } = {}
-): Promise<SizeEstimate | null> {
-  const minKb = Math.max(AUTO_MIN_SIZE_KB, opts.minKb ?? AUTO_MIN_SIZE_KB);
-  const maxKb = Math.min(AUTO_MAX_SIZE_KB, opts.maxKb ?? AUTO_MAX_SIZE_KB);
-  const candidates: number[] = [];
-  for (let kb = minKb; kb <= maxKb; kb += AUTO_SIZE_STEP_KB) candidates.push(kb);
-
-  let best: SizeEstimate | null = null;
-  for (const kb of candidates) {
-    const est = await getEstimatesForSizeKb(kb, ethPriceUsd);
-    const meetsCost =
-      opts.maxCostPerFctUsd == null || est.costPerFctUsd <= opts.maxCostPerFctUsd;
-    const meetsEff =
-      opts.minEfficiencyPercent == null || est.efficiencyPercent >= opts.minEfficiencyPercent;
-
-    // Prefer options that meet both constraints; otherwise keep best-efficiency fallback
-    if (meetsCost && meetsEff) {
-      if (!best || est.costPerFctUsd < best.costPerFctUsd) {
-        best = { ...est, kb };
-      }
-    } else if (!best) {
-      // As a fallback when none meet constraints, keep the most efficient so far
-      best = { ...est, kb };
+  const today = new Date().toISOString().slice(0, 10);
+  for (const tx of unsettled) {
+    const label = `  ${shortAddress(tx.address)} nonce ${tx.nonce}:`;
+    let r: Reconciliation;
+    try {
+      r = await engine.reconcile(tx);
+    } catch (error: any) {
+      console.log(chalk.yellow(`${label} could not be checked (${error?.shortMessage || error?.message}); retrying next start`));
+      continue;
+    }
+    journal.recordReconciled(tx, r);
+
+    if (r.status === "confirmed") {
+      const minted = r.cancelled
+        ? "cancelled, nothing minted"
+        : r.mintReported
+          ? `${formatEther(r.fctMinted)} FCT minted`
+          : `mint unknown (${r.reason})`;
+      console.log(chalk.green(`${label} confirmed, ${formatEther(r.cost!.total)} ETH spent, ${minted}`));
+      if (tx.submittedAt.slice(0, 10) === today) recoveredSpend += r.cost!.total;
+      // The run that sent it died before it could count it against the budgets
+      budget.record({
+        wallet: tx.address,
+        l1Hash: r.l1Hash,
+        wei: r.cost!.total,
+        ethPriceUsd: sessionPrices.get(tx.session) ?? 0,
+        at: tx.submittedAt,
+      });
+    } else if (r.status === "dropped") {
+      console.log(chalk.gray(`${label} dropped (${r.reason})`));
     } else {
-      // Keep the candidate with lower cost/FCT when no candidate meets constraints yet
-      if (best && est.costPerFctUsd < best.costPerFctUsd) {
-        best = { ...est, kb };
-      }
+      console.log(chalk.yellow(`${label} still pending (${r.reason}); new transactions queue behind it`));
     }
   }
+  if (recoveredSpend > 0n) {
+    console.log(chalk.cyan(`Spent today by recovered transactions: ${formatEther(recoveredSpend)} ETH`));
+  }
+}
 
-  return best;
+/** Take today's recovered spend off an explicit spend cap, once. */
+function deductRecoveredSpend(spendCap: bigint): bigint {
+  if (recoveredSpend === 0n) return spendCap;
+  const deducted = recoveredSpend < spendCap ? recoveredSpend : spendCap;
+  recoveredSpend = 0n;
+  console.log(chalk.yellow(`Spend cap reduced by ${formatEther(deducted)} ETH already spent today by recovered transactions`));
+  return spendCap - deducted;
 }
 
-async function miningLoop(
-  spendCap: bigint,
-  ethPriceUsd: number,
-  dataSize: number
-) {
-  const balance = await publicClient.getBalance({ address: account.address });
-
-  // Initialize dashboard
-  const dashboard = new MiningDashboard({
-    sessionTarget: spendCap,
-    currentBalance: balance,
-    ethPrice: ethPriceUsd,
-    remainingBudget: spendCap,
+/** The built-in strategy from the miner settings, or MINING_STRATEGY wrapping it. */
+async function createStrategy(): Promise<MiningStrategy> {
+  const defaultStrategy = new DefaultStrategy({
+    sizeKb: AUTO_SIZE_KB,
+    dynamicSize: AUTO_DYNAMIC_SIZE ? { minKb: AUTO_MIN_SIZE_KB, maxKb: AUTO_MAX_SIZE_KB } : null,
+    maxL1Gwei: MAX_L1_GWEI,
+    maxBaseFeePercentile: MAX_BASE_FEE_PERCENTILE,
+    maxNextBaseFeeGwei: MAX_NEXT_BASE_FEE_GWEI,
+    maxCostPerFctUsd: MAX_COST_PER_FCT_USD,
+    minEfficiencyPercent: MIN_EFFICIENCY_PERCENT,
+    mintRate: { mode: MINT_RATE_GATE, withinBlocks: MINT_RATE_WINDOW_BLOCKS, minChangePercent: MINT_RATE_CHANGE_PERCENT },
+    relaxAfterCycles: AUTO_RELAX_AFTER_CYCLES,
+    relaxStepPercent: AUTO_RELAX_STEP_PERCENT,
   });
-
-  dashboard.start();
-
-  let totalSpent = 0n;
-  let totalFctMinted = 0n;
-  let transactionCount = 0;
-
+  if (!MINING_STRATEGY) return defaultStrategy;
   try {
-    while (totalSpent < spendCap) {
-      transactionCount++;
-
-      // Estimate transaction cost
-      const estimatedCost = await estimateTransactionCost(
-        dataSize,
-        ethPriceUsd
-      );
-
-      // Check if we have enough for another transaction
-      if (totalSpent + estimatedCost > spendCap) {
-        break;
-      }
-
-      // Start transaction in dashboard
-      dashboard.startTransaction({
-        status: "preparing",
-        ethCost: estimatedCost,
-        fctMinted: 0n,
-      });
-
-      try {
-        const result = await mineFacetTransactionWithDashboard(
-          ethPriceUsd,
-          dataSize,
-          dashboard
-        );
-
-        if (result) {
-          totalSpent += result.ethSpent;
-          totalFctMinted += result.fctMinted;
-
-          // Update dashboard with completed transaction
-          dashboard.completeTransaction(result.ethSpent, result.fctMinted);
-
-          // Check if we have enough for another transaction
-          if (totalSpent + estimatedCost > spendCap) {
-            break;
-          }
-        } else {
-          dashboard.updateTransaction({ status: "failed" });
-          break;
-        }
-      } catch (error) {
-        dashboard.updateTransaction({ status: "failed" });
-        console.error(`Transaction ${transactionCount} failed:`, error);
-        if (STOP_ON_TX_FAIL) {
-          break;
-        } else {
-          continue;
-        }
-      }
-    }
-  } finally {
-    dashboard.stop();
-    await showFinalSummary(
-      totalSpent,
-      totalFctMinted,
-      ethPriceUsd,
-      transactionCount
-    );
+    return await loadStrategy(MINING_STRATEGY, { config: minerConfig.config, defaultStrategy });
+  } catch (error: any) {
+    console.error(chalk.red(`MINING_STRATEGY: ${error?.message ?? error}`));
+    process.exit(1);
   }
 }
 
-async function estimateTransactionCost(
-  dataSize: number,
-  ethPriceUsd: number
-): Promise<bigint> {
-  const overheadBytes = 160;
-  const mineBoostSize = dataSize - overheadBytes;
-  const mineBoostData = createMineBoostData(mineBoostSize);
-
-  const currentBlock = await publicClient.getBlock();
-  const baseFee = currentBlock.baseFeePerGas || 0n;
-  const gasPriceMultiplier = Number(process.env.GAS_PRICE_MULTIPLIER) || 1.5;
-  const adjustedBaseFee = BigInt(
-    Math.floor(Number(baseFee) * gasPriceMultiplier)
-  );
+/** FCT price in USD from the Facet pool; null off mainnet or when the pool cannot be read. */
+async function getFctPriceUsd(ethPriceUsd: number): Promise<number | null> {
+  try {
+    return ethPriceUsd / (await fetchFctPerEth(facetClient, networkConfig));
+  } catch {
+    return null;
+  }
+}
 
-  const baseExecutionGas = 21000n;
-  const estimatedInputCostGas =
-    calculateInputGasCost(mineBoostData) + baseExecutionGas;
+/** Everything the strategy sees this cycle. Refreshes balances; samples the mint rate. */
+async function marketSnapshot(waitCycles: number, window: MiningWindow | null): Promise<StrategySnapshot> {
+  const [market, ethPriceUsd] = await Promise.all([
+    engine.snapshot(),
+    getEthPriceInUsd(),
+    wallets.refreshBalances(publicClient),
+  ]);
+  return {
+    now: new Date(),
+    waitCycles,
+    market,
+    gasOutlook: engine.gasOutlook.current,
+    mintRate: engine.mintRate.outlook(),
+    ethPriceUsd,
+    fctPriceUsd: await getFctPriceUsd(ethPriceUsd),
+    balance: {
+      total: wallets.totalBalance,
+      available: wallets.totalAvailable,
+      wallets: wallets.wallets.length,
+      belowMinimum: wallets.belowMinimum().length,
+    },
+    budgets: budget.status(),
+    budgetRemainingWei: budget.remainingWei(ethPriceUsd),
+    window,
+  };
+}
 
-  return estimatedInputCostGas * adjustedBaseFee;
+function strategyTools(snapshot: StrategySnapshot): StrategyTools {
+  return {
+    quote: (sizeBytes) => engine.quote(sizeBytes, snapshot.ethPriceUsd, snapshot.market),
+    bestSize: (search) => engine.bestSize(snapshot.market, snapshot.ethPriceUsd, search),
+    evaluate: (estimate, limits) => engine.evaluate(estimate, limits),
+    balanceGate: () => engine.balanceGate(),
+  };
 }
 
-async function mineFacetTransactionWithDashboard(
-  ethPriceUsd: number,
-  dataSize: number,
-  dashboard: MiningDashboard
-): Promise<{
-  facetHash: string;
-  l1Hash: string;
-  ethSpent: bigint;
-  fctMinted: bigint;
-  costPerFct: bigint;
-} | null> {
-  const actualDataSize = dataSize || 100 * 1024;
-  const overheadBytes = 160;
-  const mineBoostSize = actualDataSize - overheadBytes;
-  const mineBoostData = createMineBoostData(mineBoostSize);
-
-  const gasPriceMultiplier = Number(process.env.GAS_PRICE_MULTIPLIER) || 1.5;
-  const currentGasPrice = await publicClient.getGasPrice();
-  const boostedGasPrice = BigInt(
-    Math.floor(Number(currentGasPrice) * gasPriceMultiplier)
+function describeMintRate(): string | null {
+  const outlook = engine.mintRate.outlook();
+  if (!outlook) return null;
+  const change = outlook.changePercent === 0 ? "flat" : `${outlook.changePercent > 0 ? "+" : ""}${outlook.changePercent.toFixed(1)}%`;
+  return (
+    `Mint rate: ${formatMintRate(outlook.rate)} FCT/ETH, next period ${formatMintRate(outlook.forecastRate)} (${change}), ` +
+    `period ${Math.round(outlook.progress * 100)}% with <=${outlook.blocksLeft} blocks left` +
+    (outlook.startObserved ? "" : " (start assumed)")
   );
+}
 
-  dashboard.updateTransaction({ status: "submitting" });
-
-  try {
-    const l1Nonce = await publicClient.getTransactionCount({
-      address: account.address,
-      blockTag: "pending",
-    });
-
-    const { l1TransactionHash, facetTransactionHash } =
-      await sendRawFacetTransaction(
-        networkConfig.l1Chain.id,
-        account.address,
-        {
-          to: account.address,
-          value: 0n,
-          data: "0x",
-          mineBoost: toHex(mineBoostData),
-        },
-        (l1Transaction) => {
-          return walletClient.sendTransaction({
-            ...l1Transaction,
-            account,
-            gasPrice: boostedGasPrice,
-            nonce: l1Nonce,
-          });
-        }
-      );
-
-    dashboard.updateTransaction({
-      status: "confirming",
-      hash: facetTransactionHash,
-    });
-
-    // Wait for confirmation with timeout
-    const facetReceipt = await facetClient.waitForTransactionReceipt({
-      hash: facetTransactionHash as `0x${string}`,
-      timeout: 60_000,
-    });
-
-    const facetTx = await facetClient.getTransaction({
-      hash: facetTransactionHash as `0x${string}`,
-    });
+/**
+ * Session controls. Ctrl+C / SIGTERM once: stop submitting and let in-flight
+ * transactions settle; twice: `forceExit`. SIGUSR1 / SIGUSR2 pause and
+ * resume; on a terminal "p" toggles pause and "q" stops.
+ */
+function attachSessionControls(forceExit: () => void): () => void {
+  let signals = 0;
+  const shutdown = () => {
+    if (++signals > 1) return forceExit();
+    shuttingDown = true;
+    engine.stop();
+  };
+  const pause = () => engine.pause();
+  const resume = () => engine.resume();
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+  process.on("SIGUSR1", pause);
+  process.on("SIGUSR2", resume);
+
+  // In raw mode Ctrl+C arrives as a key, not as SIGINT
+  const stdin = process.stdin;
+  const onKey = (key: Buffer) => {
+    const k = key.toString();
+    if (k === "\u0003" || k === "q") shutdown();
+    else if (k === "p") engine.state === "paused" ? resume() : pause();
+  };
+  if (stdin.isTTY) {
+    stdin.setRawMode(true);
+    stdin.on("data", onKey);
+    stdin.resume();
+  }
 
-    let actualFctMinted = 0n;
-    if (facetTx && "mint" in facetTx && facetTx.mint) {
-      actualFctMinted = BigInt(facetTx.mint as string | number | bigint);
+  return () => {
+    process.off("SIGINT", shutdown);
+    process.off("SIGTERM", shutdown);
+    process.off("SIGUSR1", pause);
+    process.off("SIGUSR2", resume);
+    if (stdin.isTTY) {
+      stdin.off("data", onKey);
+      stdin.setRawMode(false);
+      stdin.pause();
     }
+  };
+}
 
-    const actualEthBurned = await estimateTransactionCost(
-      dataSize,
-      ethPriceUsd
-    );
-    const actualEthPerFct =
-      actualFctMinted > 0n
-        ? (actualEthBurned * 10n ** 18n) / actualFctMinted
-        : 0n;
-
-    dashboard.updateTransaction({
-      status: "completed",
-      fctMinted: actualFctMinted,
-    });
-
-    return {
-      facetHash: facetTransactionHash,
-      l1Hash: l1TransactionHash,
-      ethSpent: actualEthBurned,
-      fctMinted: actualFctMinted,
-      costPerFct: actualEthPerFct,
-    };
-  } catch (error) {
-    dashboard.updateTransaction({ status: "failed" });
-    return null;
+/** Sleep until `date`, in steps short enough for setTimeout. */
+async function sleepUntil(date: Date) {
+  for (let left = date.getTime() - Date.now(); left > 0; left = date.getTime() - Date.now()) {
+    await new Promise((r) => setTimeout(r, Math.min(left, 3_600_000)));
   }
 }
 
-async function mineFacetTransaction(
-  ethPriceUsd?: number,
-  dataSize?: number
-): Promise<{
-  facetHash: string;
-  l1Hash: string;
-  ethSpent: bigint;
-  fctMinted: bigint;
-  costPerFct: bigint;
-} | null> {
-  const actualDataSize = dataSize || 100 * 1024; // Default to 100KB if not specified
-  const overheadBytes = 160;
-  const mineBoostSize = actualDataSize - overheadBytes;
-
-  // Get prices (use provided price or fetch new one)
-  const currentEthPriceUsd = ethPriceUsd || (await getEthPriceInUsd());
-  console.log(`ETH Price: $${currentEthPriceUsd.toFixed(2)}`);
-
-  const fctMarketPrice = await getFctMarketPrice();
-  if (fctMarketPrice) {
-    console.log(
-      `FCT Market Price (Uniswap V2): ${formatEther(
-        fctMarketPrice.priceInEth
-      )} ETH ($${fctMarketPrice.priceInUsd.toFixed(6)})`
-    );
+function showSchedule() {
+  if (!schedule) return;
+  console.log(chalk.cyan(`Mining windows (${schedule.timeZone}):`));
+  for (const window of schedule.windows) {
+    console.log(chalk.gray(`  ${window.spec}  ${describeWindowLimits(window)}`));
   }
-
-  const mineBoostData = createMineBoostData(mineBoostSize);
-  const dataGas = calculateDataGas(mineBoostData);
-
-  const currentBlock = await publicClient.getBlock();
-  const baseFee = currentBlock.baseFeePerGas || 0n;
-
-  // Get FCT mint rate for estimation (note: actual mining amount is non-deterministic)
-  const fctMintRate = await getFctMintRate(networkConfig.l1Chain.id);
-
-  // Estimate calldata cost for display purposes
-  const baseExecutionGas = 21000n;
-  const estimatedInputCostGas =
-    calculateInputGasCost(mineBoostData) + baseExecutionGas;
-  const inputCostWei = (estimatedInputCostGas - baseExecutionGas) * baseFee;
-  const fctMintAmount = inputCostWei * fctMintRate;
-
-  // Get gas price multiplier for accurate cost calculation
-  const gasPriceMultiplier = Number(process.env.GAS_PRICE_MULTIPLIER) || 1.5;
-  const adjustedBaseFee = BigInt(
-    Math.floor(Number(baseFee) * gasPriceMultiplier)
-  );
-
-  // Estimate total ETH burn for display (actual will be handled by SDK)
-  const estimatedEthBurn = estimatedInputCostGas * adjustedBaseFee;
-
-  console.log("\nGas Estimates:");
-  console.log("  Data gas:", dataGas.toString(), "gas");
-  console.log("  Estimated L1 gas:", estimatedInputCostGas.toString(), "gas");
-  console.log("  Base fee:", formatGwei(baseFee), "gwei");
-  console.log(
-    "  Adjusted fee (+" + Math.round((gasPriceMultiplier - 1) * 100) + "%):",
-    formatGwei(adjustedBaseFee),
-    "gwei"
-  );
-  console.log("  Input cost:", estimatedInputCostGas.toString(), "gas units");
-  console.log("  Input cost in ETH:", formatEther(inputCostWei), "ETH");
-  console.log(
-    "  FCT mint rate:",
-    fctMintRate.toString(),
-    "FCT-wei per ETH-wei"
-  );
-
-  // Calculate price correctly: ETH per FCT (cost to get 1 FCT)
-  const ethPerFct =
-    fctMintAmount > 0n ? (estimatedEthBurn * 10n ** 18n) / fctMintAmount : 0n;
-
-  // Calculate fully diluted valuation
-  const fctPriceUsd = Number(formatEther(ethPerFct)) * currentEthPriceUsd;
-  const maxSupplyInFct = Number(formatEther(FCT_MAX_SUPPLY));
-  const fullyDilutedValue = maxSupplyInFct * fctPriceUsd;
-
-  console.log("\nExpected Results:");
-  const ethBurnUsd = Number(formatEther(estimatedEthBurn)) * currentEthPriceUsd;
-  console.log(
-    "  ETH to burn:",
-    formatEther(estimatedEthBurn),
-    "ETH",
-    `($${ethBurnUsd.toFixed(2)})`
-  );
-  console.log("  FCT to mint:", formatEther(fctMintAmount), "FCT");
-  console.log("  Cost per FCT:", formatEther(ethPerFct), "ETH");
-  console.log(
-    "  Cost per FCT (USD):",
-    formatCostPerFct(ethPerFct, currentEthPriceUsd)
-  );
-
-  // Calculate and display overhead
-  // L1 overhead is just the base transaction cost (21000 gas)
-  // Everything else (all calldata) contributes to FCT minting
-  // Note: baseExecutionGas and actualCalldataGas are already defined above
-  const calldataEthCost = inputCostWei; // Already calculated above
-  const executionEthCost = baseExecutionGas * baseFee;
-  const calldataEthUsd =
-    Number(formatEther(calldataEthCost)) * currentEthPriceUsd;
-  const executionEthUsd =
-    Number(formatEther(executionEthCost)) * currentEthPriceUsd;
-  const efficiencyPercent =
-    (Number(estimatedInputCostGas - baseExecutionGas) /
-      Number(estimatedInputCostGas)) *
-    100;
-
-  console.log("\nCost Breakdown:");
-  console.log(
-    "  Calldata cost (generates FCT):",
-    formatEther(calldataEthCost),
-    "ETH",
-    `($${calldataEthUsd.toFixed(2)})`
-  );
-  console.log(
-    "  L1 base cost (21k gas):",
-    formatEther(executionEthCost),
-    "ETH",
-    `($${executionEthUsd.toFixed(2)})`
-  );
-  console.log(
-    "  Mining efficiency:",
-    `${efficiencyPercent.toFixed(1)}%`,
-    `(${(100 - efficiencyPercent).toFixed(1)}% overhead)`
-  );
-
-  // Compare with market price
-  if (fctMarketPrice) {
-    const miningPremium =
-      ((Number(formatEther(ethPerFct)) -
-        Number(formatEther(fctMarketPrice.priceInEth))) /
-        Number(formatEther(fctMarketPrice.priceInEth))) *
-      100;
-    if (miningPremium > 0) {
-      console.log(
-        `  ⚠️  Mining cost is ${miningPremium.toFixed(1)}% above market price`
-      );
-    } else {
-      console.log(
-        `  Mining cost is ${Math.abs(miningPremium).toFixed(
-          1
-        )}% below market price`
-      );
-    }
+  const open = schedule.current();
+  if (open) console.log(chalk.green(`  Open now: ${schedule.format(open)}`));
+  for (const occurrence of schedule.upcoming(5)) {
+    console.log(chalk.gray(`  Next: ${schedule.format(occurrence)}  ${describeWindowLimits(occurrence.window)}`));
   }
+}
 
-  // Compare mining vs swapping (mainnet only)
-  if (isMainnet()) {
-    await compareMiningVsSwapping(estimatedEthBurn, fctMintAmount, ethPerFct);
+/** Mine one session; with `until` (a window's end) submission stops at that time. */
+async function miningLoop(
+  spendCap: bigint,
+  ethPriceUsd: number,
+  dataSize: number,
+  until?: Date,
+  maxGasPrice?: bigint
+): Promise<SessionSummary> {
+  const budgetRoom = budget.remainingWei(ethPriceUsd);
+  if (budgetRoom != null && budgetRoom < spendCap) {
+    spendCap = budgetRoom;
+    console.log(chalk.cyan(`Spend budgets leave ${formatEther(spendCap)} ETH for this session`));
   }
-  console.log("\nMarket Valuation:");
-  console.log("  FCT Max Supply:", maxSupplyInFct.toLocaleString(), "FCT");
-  console.log(
-    "  Fully Diluted Valuation:",
-    `$${fullyDilutedValue.toLocaleString(undefined, {
-      maximumFractionDigits: 0,
-    })}`
-  );
 
-  console.log("\nSending transaction...");
-
-  // Get current gas price and apply multiplier to avoid getting stuck
-  const currentGasPrice = await publicClient.getGasPrice();
-  const boostedGasPrice = BigInt(
-    Math.floor(Number(currentGasPrice) * gasPriceMultiplier)
-  );
+  // Live dashboard on a terminal, log lines otherwise
+  let dashboard: MiningDashboard | null = null;
+  let detachReporter: (() => void) | null = null;
+  if (process.stdout.isTTY) {
+    await wallets.refreshBalances(publicClient);
+    dashboard = new MiningDashboard({
+      sessionTarget: spendCap,
+      currentBalance: wallets.totalBalance,
+      ethPrice: ethPriceUsd,
+      remainingBudget: spendCap,
+      maxInFlight: MAX_IN_FLIGHT,
+      simulated: DRY_RUN,
+      wallets: wallets.wallets.map((w) => ({
+        address: w.account.address,
+        ethSpent: 0n,
+        fctMinted: 0n,
+        transactions: 0,
+      })),
+    });
+    dashboard.attach(engine);
+    if (budget.limits.length > 0) dashboard.showBudget(budget);
+    dashboard.start();
+  } else {
+    detachReporter = attachConsoleReporter(engine);
+  }
 
-  console.log("Gas price strategy:");
-  console.log(
-    "  Current network gas price:",
-    formatGwei(currentGasPrice),
-    "gwei"
-  );
-  console.log(
-    "  Boosted gas price (+" +
-      Math.round((gasPriceMultiplier - 1) * 100) +
-      "% buffer):",
-    formatGwei(boostedGasPrice),
-    "gwei"
-  );
+  const windowTimer = until
+    ? setTimeout(() => {
+        if (!process.stdout.isTTY) console.log(chalk.yellow("\nMining window closed"));
+        engine.stop();
+      }, Math.max(0, until.getTime() - Date.now()))
+    : null;
+
+  let summary: SessionSummary | null = null;
+  let finished = false;
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    if (windowTimer) clearTimeout(windowTimer);
+    dashboard?.stop();
+    detachReporter?.();
+    detachControls();
+    summary ??= engine.sessionSummary(ethPriceUsd);
+    journal.endSession(summary);
+  };
+  const detachControls = attachSessionControls(async () => {
+    // Whatever is still in flight is reconciled on the next start
+    finish();
+    await showFinalSummary(summary!, true);
+    process.exit(130);
+  });
 
+  journal.startSession({
+    network: getCurrentNetwork(),
+    mode: AUTO_MODE ? "auto" : "interactive",
+    dryRun: DRY_RUN,
+    wallets: wallets.wallets.map((w) => w.account.address),
+    spendCap: spendCap.toString(),
+    sizeBytes: dataSize,
+    ethPriceUsd,
+    config: { ...minerConfig.config },
+  });
   try {
-    // Get current nonce before sending
-    const l1Nonce = await publicClient.getTransactionCount({
-      address: account.address,
-      blockTag: "pending",
+    summary = await engine.runSession({
+      spendCap,
+      sizeBytes: dataSize,
+      ethPriceUsd,
+      stopOnFail: STOP_ON_TX_FAIL,
+      maxInFlight: MAX_IN_FLIGHT,
+      budget,
+      maxGasPrice,
     });
-
-    // Use SDK to send the Facet transaction with mine boost
-    const { l1TransactionHash, facetTransactionHash } =
-      await sendRawFacetTransaction(
-        networkConfig.l1Chain.id,
-        account.address,
-        {
-          to: account.address,
-          value: 0n,
-          data: "0x",
-          mineBoost: toHex(mineBoostData),
-        },
-        (l1Transaction) => {
-          return walletClient.sendTransaction({
-            ...l1Transaction,
-            account,
-            gasPrice: boostedGasPrice,
-            nonce: l1Nonce,
-          });
-        }
-      );
-
-    console.log("L1 transaction hash:", l1TransactionHash);
-    console.log("L1 transaction nonce:", l1Nonce);
-    console.log("Facet transaction hash:", facetTransactionHash);
-    const facetHash = facetTransactionHash;
-    console.log("Waiting for Facet confirmation...");
-
-    let actualFctMinted = 0n;
-    let actualEthBurned = estimatedEthBurn; // Fallback to estimate
-    let actualGasUsed = estimatedInputCostGas; // Fallback to estimate
-    let actualGasPrice = boostedGasPrice; // Use the gas price we set
-    let isConfirmed = false;
-
-    try {
-      const facetReceipt = await facetClient.waitForTransactionReceipt({
-        hash: facetHash as `0x${string}`,
-        timeout: 60_000, // 60 second timeout
-      });
-
-      // Get the full transaction to access the mint field
-      const facetTx = await facetClient.getTransaction({
-        hash: facetHash as `0x${string}`,
-      });
-
-      // The Facet transaction has a 'mint' field with the actual FCT minted
-      if (facetTx && "mint" in facetTx && facetTx.mint) {
-        actualFctMinted = BigInt(facetTx.mint as string | number | bigint);
-        isConfirmed = true;
-        console.log("Facet transaction confirmed");
-        console.log("  Facet block:", facetReceipt.blockNumber);
-        console.log(
-          "  Actual FCT minted:",
-          formatEther(actualFctMinted),
-          "FCT"
-        );
-      } else {
-        // Fallback to estimated amount if mint field not found
-        console.log(
-          "Warning: Could not find mint field, using estimated amount"
-        );
-        actualFctMinted = fctMintAmount;
-      }
-    } catch (error) {
-      console.log(
-        "Facet confirmation timeout after 60 seconds - stopping mining"
-      );
-      console.log(
-        "   L1 transaction may have failed or Facet indexing is delayed"
-      );
-      return null;
-    }
-
-    // Calculate actual price: ETH per FCT
-    const actualEthPerFct =
-      actualFctMinted > 0n
-        ? (actualEthBurned * 10n ** 18n) / actualFctMinted
-        : 0n;
-
-    if (isConfirmed) {
-      console.log("\nTransaction Confirmed!");
-    } else {
-      console.log("\n⏳ Transaction Submitted (pending confirmation)");
-    }
-    console.log("L1 Hash:", l1TransactionHash);
-    console.log("L1 Nonce:", l1Nonce);
-    console.log("Facet Hash:", facetHash);
-    console.log("\nActual Results:");
-    console.log("  Gas used:", actualGasUsed.toString());
-    console.log("  Gas price:", formatGwei(actualGasPrice), "gwei");
-    // Calculate actual fully diluted valuation
-    const actualFctPriceUsd =
-      Number(formatEther(actualEthPerFct)) * currentEthPriceUsd;
-    const maxSupplyInFct = Number(formatEther(FCT_MAX_SUPPLY));
-    const actualFdv = maxSupplyInFct * actualFctPriceUsd;
-
-    const actualEthBurnUsd =
-      Number(formatEther(actualEthBurned)) * currentEthPriceUsd;
-    console.log(
-      "  ETH burned:",
-      formatEther(actualEthBurned),
-      "ETH",
-      `($${actualEthBurnUsd.toFixed(2)})`
-    );
-    console.log("  FCT minted:", formatEther(actualFctMinted), "FCT");
-    console.log("  Actual cost per FCT:", formatEther(actualEthPerFct), "ETH");
-    console.log(
-      "  Actual cost per FCT (USD):",
-      formatCostPerFct(actualEthPerFct, currentEthPriceUsd)
-    );
-    console.log("\nActual Market Metrics:");
-    console.log(
-      "  Fully Diluted Valuation (FDV):",
-      `$${actualFdv.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
-    );
-
-    // Return transaction results
-    return {
-      facetHash,
-      l1Hash: l1TransactionHash,
-      ethSpent: actualEthBurned,
-      fctMinted: actualFctMinted,
-      costPerFct: actualEthPerFct,
-    };
-  } catch (error) {
-    console.error("Transaction failed:", error);
-    return null;
+  } finally {
+    finish();
+    await showFinalSummary(summary!);
   }
+  if (!AUTO_CONTINUOUS && !shuttingDown) {
+    console.log(chalk.gray("Press any key to exit..."));
+    await waitForKeypress();
+  }
+  return summary!;
 }
 
-async function showFinalSummary(
-  totalSpent: bigint,
-  totalFctMinted: bigint,
-  ethPriceUsd: number,
-  transactionCount: number
-) {
+async function showFinalSummary(summary: SessionSummary, forced = false) {
+  const {
+    ethSpent: totalSpent,
+    fctMinted: totalFctMinted,
+    ethPriceUsd,
+    transactions: transactionCount,
+    wallets: walletBreakdown,
+  } = summary;
   console.clear();
 
   // Keep the same header as always
   const borderWidth = 79;
-  const text = "FCT MINER v1.0";
+  const text = summary.simulated ? "FCT MINER v1.0 - DRY RUN (SIMULATED)" : "FCT MINER v1.0";
   const padding = Math.floor((borderWidth - text.length) / 2);
   const remainder = borderWidth - text.length - padding;
   const centeredText = " ".repeat(padding) + text + " ".repeat(remainder);
@@ -989,6 +801,11 @@ async function showFinalSummary(
       formatEther(totalSpent).slice(0, 8)
     )} ETH`
   );
+  console.log(
+    `    ${chalk.gray("Base fee burned:")} ${formatEther(summary.baseFeeBurned).slice(0, 10)} ETH  ${chalk.gray(
+      "Priority tips:"
+    )} ${formatEther(summary.priorityFees).slice(0, 10)} ETH`
+  );
   console.log(
     `  ${chalk.white("USD Spent:")} ${chalk.yellow.bold(
       "$" + totalSpentUSD.toFixed(2)
@@ -1015,132 +832,190 @@ async function showFinalSummary(
     );
   }
 
-  console.log(chalk.green("\nSession completed successfully!"));
-  console.log(chalk.gray("Press any key to exit..."));
+  if (budget.limits.length > 0) {
+    console.log(chalk.cyan("\nBudgets:"));
+    for (const status of budget.status()) console.log(`  ${formatBudgetStatus(status)}`);
+  }
+
+  if (walletBreakdown.length > 1) {
+    console.log(chalk.cyan("\nPer Wallet:"));
+    for (const w of walletBreakdown) {
+      console.log(
+        `  ${chalk.white(shortAddress(w.account.address))}  ${chalk.yellow(
+          formatEther(w.spent).slice(0, 8)
+        )} ETH  ${chalk.green(
+          formatEther(w.fctMinted).slice(0, 8)
+        )} FCT  ${chalk.gray(w.txCount + " tx")}`
+      );
+    }
+  }
+
+  if (forced) {
+    console.log(chalk.red("\nExited with transactions still in flight; they are reconciled on the next start."));
+  } else if (summary.stopped) {
+    console.log(chalk.yellow("\nSession stopped; every submitted transaction has settled."));
+  } else if (summary.simulated) {
+    console.log(chalk.magenta("\nDry run completed: all figures are simulated, no transaction was broadcast."));
+  } else {
+    console.log(chalk.green("\nSession completed successfully!"));
+  }
+  if (summary.simulated && (forced || summary.stopped)) {
+    console.log(chalk.magenta("All figures are simulated, no transaction was broadcast."));
+  }
 }
 
 async function main() {
+  try {
+    wallets = new WalletPool(await loadAccounts(), {
+      chain: networkConfig.l1Chain,
+      transport: l1Transport(),
+      rotation: WALLET_ROTATION,
+      spendCapsEth: WALLET_SPEND_CAPS_ETH,
+      minBalancesEth: WALLET_MIN_BALANCES_ETH,
+      defaultMinBalanceEth: MIN_BALANCE_ETH,
+    });
+  } catch (error: any) {
+    console.error(chalk.red(`Error: ${error.message}`));
+    process.exit(1);
+  }
+  engine = new MiningEngine({
+    l1Client: publicClient,
+    facetClient,
+    wallets,
+    l1ChainId: networkConfig.l1Chain.id,
+    feeStrategy,
+    mintPeriodBlocks: MINT_PERIOD_BLOCKS,
+    gasWindowHours: BASE_FEE_WINDOW_HOURS,
+    payload,
+    dryRun: DRY_RUN,
+    replacement: {
+      afterMs: REPLACE_AFTER_SEC * 1000,
+      bumpMultiplier: BUMP_MULTIPLIER,
+      maxFeePerGas: REPLACE_MAX_GWEI != null ? parseGwei(String(REPLACE_MAX_GWEI)) : undefined,
+    },
+  });
+  journal.attach(engine);
+  budget.attach(engine);
+
+  // Keep endpoint health fresh so long sessions move off a failing RPC
+  getRpcPools().l1.startProbing();
+  getRpcPools().facet.startProbing();
+
+  await recoverUnsettled();
+  showBudgets();
+
   if (!AUTO_MODE) {
     await startMiningSession();
     return;
   }
 
-  // Auto controller
-  const loopForever = AUTO_LOOP;
+  // Auto controller: the strategy decides, this loop handles windows, budgets and caps
+  const loopForever = AUTO_CONTINUOUS;
   let waitCycles = 0;
-  while (true) {
-    ui.showHeader(getCurrentNetwork(), account.address);
+  // Spend so far in the current window occurrence, for its cap=
+  let windowKey = "";
+  let windowSpent = 0n;
+  let firstCycle = true;
+  const strategy = await createStrategy();
 
-    // Get wallet balance
-    const balance = await publicClient.getBalance({ address: account.address });
-    const balanceEth = Number(formatEther(balance));
-    if (MIN_BALANCE_ETH != null && balanceEth < MIN_BALANCE_ETH) {
-      console.log(
-        chalk.yellow(
-          `Balance ${balanceEth} ETH below MIN_BALANCE_ETH=${MIN_BALANCE_ETH}. Waiting... (cycle ${waitCycles + 1})`
-        )
-      );
-      if (!loopForever) return;
-      await new Promise((r) => setTimeout(r, CHECK_INTERVAL_SEC * 1000));
-      waitCycles++;
-      continue;
+  while (true) {
+    ui.showHeader(getCurrentNetwork(), wallets.describe());
+    showDryRunBanner();
+    console.log(chalk.gray(`Fees: ${feeStrategy.describe()}`));
+    if (firstCycle) {
+      console.log(chalk.gray(`Strategy: ${strategy.name}`));
+      showSchedule();
     }
-
-    const ethPriceUsd = await getEthPriceInUsd();
-
-    // Gas price threshold check (L1)
-    if (MAX_L1_GWEI != null) {
-      const currentGas = await publicClient.getGasPrice();
-      const currentGwei = Number(formatGwei(currentGas));
-      // Apply relaxation if we've been waiting
-      let effectiveMaxGwei = MAX_L1_GWEI;
-      if (waitCycles >= AUTO_RELAX_AFTER_CYCLES) {
-        const relaxSteps = waitCycles - AUTO_RELAX_AFTER_CYCLES + 1;
-        const relaxFactor = 1 + (relaxSteps * AUTO_RELAX_STEP_PERCENT) / 100;
-        effectiveMaxGwei = MAX_L1_GWEI * relaxFactor;
+    firstCycle = false;
+
+    let occurrence: WindowOccurrence | null = null;
+    if (schedule) {
+      occurrence = schedule.current();
+      const key = occurrence ? `${occurrence.window.spec}@${occurrence.start.toISOString()}` : "";
+      if (key !== windowKey) {
+        windowKey = key;
+        windowSpent = 0n;
       }
-      if (currentGwei > effectiveMaxGwei) {
-        const note =
-          effectiveMaxGwei !== MAX_L1_GWEI
-            ? ` (relaxed to ${effectiveMaxGwei.toFixed(2)} gwei)`
-            : "";
-        console.log(
-          chalk.yellow(
-            `Gate: L1 gas ${currentGwei} gwei > MAX_L1_GWEI ${MAX_L1_GWEI}${note}. Waiting... (cycle ${waitCycles + 1})`
-          )
-        );
-        if (!loopForever) return;
-        await new Promise((r) => setTimeout(r, CHECK_INTERVAL_SEC * 1000));
-        waitCycles++;
+      const capEth = occurrence?.window.spendCapEth;
+      if (occurrence && capEth != null && windowSpent >= parseEther(String(capEth))) {
+        console.log(chalk.yellow(`Window spend cap of ${capEth} ETH reached; sleeping until it closes`));
+        await sleepUntil(occurrence.end);
         continue;
       }
+      if (!occurrence) {
+        const next = schedule.next();
+        if (!next) {
+          console.log(chalk.red("No mining window opens in the next 40 days; exiting"));
+          return;
+        }
+        console.log(chalk.cyan(`Outside mining windows; sleeping until ${schedule.format(next)}`));
+        await sleepUntil(next.start);
+        waitCycles = 0;
+        continue;
+      }
+      console.log(chalk.green(`In mining window ${schedule.format(occurrence)} (${describeWindowLimits(occurrence.window)})`));
     }
+    const window = occurrence?.window;
 
-    // Pick size and estimate (adaptive if enabled)
-    let effectiveMaxCost = MAX_COST_PER_FCT_USD ?? undefined;
-    let effectiveMinEff = MIN_EFFICIENCY_PERCENT ?? undefined;
-    if (waitCycles >= AUTO_RELAX_AFTER_CYCLES) {
-      const relaxSteps = waitCycles - AUTO_RELAX_AFTER_CYCLES + 1;
-      const relaxFactor = 1 + (relaxSteps * AUTO_RELAX_STEP_PERCENT) / 100;
-      if (effectiveMaxCost != null) effectiveMaxCost = effectiveMaxCost * relaxFactor;
-      if (effectiveMinEff != null) effectiveMinEff = Math.max(0, effectiveMinEff / relaxFactor);
+    try {
+      console.log(chalk.gray(`Gas outlook: ${formatGasOutlook(await engine.gasOutlook.refresh())}`));
+    } catch (error: any) {
+      // The base-fee rules keep using the last outlook, or are skipped without one
+      console.log(chalk.yellow(`Gas outlook unavailable: ${error?.shortMessage ?? error?.message ?? error}`));
     }
 
-    let est: Awaited<ReturnType<typeof getEstimatesForSizeKb>> & { kb?: number };
-    if (AUTO_DYNAMIC_SIZE) {
-      const pick = await pickBestSizeAndEstimates(ethPriceUsd, {
-        maxCostPerFctUsd: effectiveMaxCost,
-        minEfficiencyPercent: effectiveMinEff,
-      });
-      if (!pick) {
-        console.log(chalk.yellow(`Unable to compute estimates. Waiting... (cycle ${waitCycles + 1})`));
-        if (!loopForever) return;
-        await new Promise((r) => setTimeout(r, CHECK_INTERVAL_SEC * 1000));
-        waitCycles++;
-        continue;
+    let decision: MiningDecision;
+    let est: MiningEstimate | null = null;
+    try {
+      const snapshot = await marketSnapshot(waitCycles, window ?? null);
+      const mintRate = describeMintRate();
+      if (mintRate) console.log(chalk.gray(mintRate));
+      decision = await strategy.decide(snapshot, strategyTools(snapshot));
+      if (decision.action === "mine") {
+        const size = decision.sizeBytes;
+        if (!Number.isInteger(size) || size <= OVERHEAD_BYTES || size > MAX_SIZE_KB * 1024) {
+          throw new Error(`strategy chose ${size} bytes (expected ${OVERHEAD_BYTES + 1}..${MAX_SIZE_KB * 1024})`);
+        }
+        est = engine.quote(size, snapshot.ethPriceUsd, snapshot.market);
+        console.log(
+          chalk.gray(
+            `Estimates: size=${est.kb}KB, cost/tx=${formatEther(est.estimatedEthBurn)} ETH, cost/FCT=$${est.costPerFctUsd.toFixed(6)}, eff=${est.efficiencyPercent.toFixed(1)}%`
+          )
+        );
       }
-      est = pick;
-      console.log(
-        chalk.gray(
-          `Estimates: size=${pick.kb}KB, cost/tx=${formatEther(pick.estimatedEthBurn)} ETH, cost/FCT=$${pick.costPerFctUsd.toFixed(6)}, eff=${pick.efficiencyPercent.toFixed(1)}%`)
-      );
-    } else {
-      est = await getEstimatesForSizeKb(AUTO_SIZE_KB, ethPriceUsd);
-      console.log(
-        chalk.gray(
-          `Estimates: size=${AUTO_SIZE_KB}KB, cost/tx=${formatEther(est.estimatedEthBurn)} ETH, cost/FCT=$${est.costPerFctUsd.toFixed(6)}, eff=${est.efficiencyPercent.toFixed(1)}%`
-        )
-      );
+    } catch (error: any) {
+      decision = { action: "wait", reason: `Unable to decide: ${error?.shortMessage ?? error?.message ?? error}` };
     }
 
-    // Enforce gates with relaxed values
-    if (effectiveMinEff != null && est.efficiencyPercent < effectiveMinEff) {
-      console.log(
-        chalk.yellow(
-          `Gate: Efficiency ${est.efficiencyPercent.toFixed(1)}% < MIN_EFFICIENCY_PERCENT ${MIN_EFFICIENCY_PERCENT}${
-            effectiveMinEff !== MIN_EFFICIENCY_PERCENT ? ` (relaxed to ${effectiveMinEff.toFixed(1)}%)` : ""
-          }. Waiting... (cycle ${waitCycles + 1})`
-        )
-      );
+    if (decision.action === "wait" || !est) {
+      const reason = decision.action === "wait" && decision.gate ? formatGate(decision.gate) : decision.reason;
+      console.log(chalk.yellow(`Decision: wait. ${reason} (cycle ${waitCycles + 1})`));
       if (!loopForever) return;
       await new Promise((r) => setTimeout(r, CHECK_INTERVAL_SEC * 1000));
       waitCycles++;
       continue;
     }
 
-    if (effectiveMaxCost != null && est.costPerFctUsd > effectiveMaxCost) {
-      console.log(
-        chalk.yellow(
-          `Gate: Cost/FCT $${est.costPerFctUsd.toFixed(6)} > MAX_COST_PER_FCT_USD $${MAX_COST_PER_FCT_USD}${
-            effectiveMaxCost !== MAX_COST_PER_FCT_USD ? ` (relaxed to $${effectiveMaxCost.toFixed(6)})` : ""
-          }. Waiting... (cycle ${waitCycles + 1})`
-        )
-      );
-      if (!loopForever) return;
-      await new Promise((r) => setTimeout(r, CHECK_INTERVAL_SEC * 1000));
-      waitCycles++;
+    const blocked = budget.blocked(est.estimatedEthBurn, est.ethPriceUsd);
+    if (blocked) {
+      const spent = blocked.exhausted.map((s) => s.limit.period).join(", ");
+      if (!blocked.until) {
+        console.log(chalk.red(`Lifetime spend budget exhausted (${spent}); exiting`));
+        return;
+      }
+      if (!loopForever) {
+        console.log(chalk.yellow(`Spend budget exhausted (${spent}); it resets ${blocked.until.toISOString()}`));
+        return;
+      }
+      console.log(chalk.cyan(`Spend budget exhausted (${spent}); sleeping until ${blocked.until.toISOString()}`));
+      await sleepUntil(blocked.until);
+      waitCycles = 0;
       continue;
     }
+    console.log(chalk.green(`Decision: mine (${decision.reason})`));
+
+    const ethPriceUsd = est.ethPriceUsd;
+    const balance = wallets.totalAvailable;
 
     // Determine spend cap
     let spendCap: bigint;
@@ -1165,7 +1040,7 @@ async function main() {
         spendCap = BigInt(Math.floor(capEth * 1e18));
       }
       if (spendCap > balance) {
-        console.log(chalk.red(`SPEND_CAP_ETH ${capEth} exceeds wallet balance ${formatEther(balance)}`));
+        console.log(chalk.red(`SPEND_CAP_ETH ${capEth} exceeds spendable wallet balance ${formatEther(balance)}`));
         return;
       }
       // Ensure we can afford at least one transaction
@@ -1179,26 +1054,36 @@ async function main() {
           if (balance > buffer) spendCap = balance - buffer; else spendCap = balance;
         }
       }
+      spendCap = deductRecoveredSpend(spendCap);
       console.log(chalk.cyan(`Auto spend cap (final): ${formatEther(spendCap)} ETH`));
     }
 
+    if (occurrence && window?.spendCapEth != null) {
+      const room = parseEther(String(window.spendCapEth)) - windowSpent;
+      if (room < spendCap) {
+        spendCap = room;
+        console.log(chalk.cyan(`Window spend cap leaves ${formatEther(spendCap)} ETH for this session`));
+      }
+    }
+
     // Run mining loop
-    await miningLoop(spendCap, ethPriceUsd, est.sizeBytes);
+    const summary = await miningLoop(spendCap, ethPriceUsd, est.sizeBytes, occurrence?.end, decision.maxGasPrice);
+    windowSpent += summary.ethSpent;
     waitCycles = 0; // reset on successful run
 
-    if (!loopForever) return;
+    if (!loopForever || shuttingDown) return;
     // Short cooldown before next cycle
     await new Promise((r) => setTimeout(r, CHECK_INTERVAL_SEC * 1000));
   }
 }
 
 async function startMiningSession() {
-  ui.showHeader(getCurrentNetwork(), account.address);
+  ui.showHeader(getCurrentNetwork(), wallets.describe());
+  showDryRunBanner();
 
-  // Get wallet balance
-  const balance = await publicClient.getBalance({
-    address: account.address,
-  });
+  // Spendable balance across wallets (above each wallet's minimum and within its cap)
+  await wallets.refreshBalances(publicClient);
+  const balance = wallets.totalAvailable;
 
   // Get ETH price for USD calculations
   const ethPriceUsd = await getEthPriceInUsd();
@@ -1207,7 +1092,7 @@ async function startMiningSession() {
   // Show system info in dashboard style
   ui.showSystemInfo(
     getCurrentNetwork(),
-    account.address,
+    wallets.describe(),
     formatEther(balance),
     ethPriceUsd,
     balanceUsd
@@ -1270,6 +1155,12 @@ async function startMiningSession() {
       return;
     }
 
+    spendCap = deductRecoveredSpend(spendCap);
+    if (spendCap === 0n) {
+      console.log("Nothing left of the spending cap");
+      return;
+    }
+
     const estimatedTxCount = Math.floor(
       Number(spendCap) / Number(estimatedCostPerTx)
     );
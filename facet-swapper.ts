@@ -1,18 +1,21 @@
 #!/usr/bin/env tsx
 import 'dotenv/config';
 import {
-  createWalletClient, createPublicClient, http,
-  formatUnits, parseUnits, type Address
+  createWalletClient, createPublicClient,
+  formatUnits, parseUnits, type Address, type Transport, type WalletClient
 } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
+import type { LocalAccount } from 'viem/accounts';
 import { getNetworkConfig } from './config';
 import { checkNetwork } from './check-network';
+import { facetTransport } from './rpc';
+import { loadAccount } from './account';
 import { ERC20_ABI, UNIV2_ROUTER_ABI, WRAPPED_WITHDRAW_ABI } from './abi';
 
 const conf = getNetworkConfig();
-const account = privateKeyToAccount(process.env.PRIVATE_KEY as `0x${string}`);
-const pub = createPublicClient({ transport: http(conf.facetRpcUrl) });
-const wal = createWalletClient({ account, transport: http(conf.facetRpcUrl) });
+const pub = createPublicClient({ transport: facetTransport() });
+// 账户在 main() 中加载（keystore 可能需要输入密码）
+let account: LocalAccount;
+let wal: WalletClient<Transport, undefined, LocalAccount>;
 
 async function approveIfNeeded(token: Address, spender: Address, amount: bigint) {
   const allowance: bigint = await pub.readContract({
@@ -84,7 +87,10 @@ async function swapWethToFct(amountWeth: bigint, slippageBps = 50) {
 }
 
 async function main() {
+  if (!conf.tradingEnabled) throw new Error(`${conf.name} 网络不支持 FCT 交易，请切换到 mainnet`);
   await checkNetwork();
+  account = await loadAccount();
+  wal = createWalletClient({ account, transport: facetTransport() });
 
   const [cmd, amountStr, slippageStr] = process.argv.slice(2);
   if (!cmd || !amountStr) {
@@ -0,0 +1,158 @@
+import type { PublicClient } from "viem";
+
+// L1 fee model shared by estimates and the transactions actually sent.
+//
+// eip1559: type-2 transactions. The next block's base fee comes from
+//   eth_feeHistory; the priority fee is a percentile of recent block rewards,
+//   picked from the target inclusion time (sooner = higher percentile).
+//   maxFeePerGas lets the base fee rise for every block we are willing to
+//   wait, so the transaction stays includable; what we expect to pay is
+//   next base fee + tip.
+// legacy: the previous behaviour, gasPrice = eth_gasPrice * GAS_PRICE_MULTIPLIER.
+
+export type FeeMode = "eip1559" | "legacy";
+
+export interface FeeStrategyOptions {
+  mode: FeeMode;
+  targetInclusionSec: number;
+  historyBlocks: number;
+  percentile?: number; // override the percentile picked from the target time
+  gasPriceMultiplier: number; // legacy mode only
+  blockTimeSec?: number;
+}
+
+export interface FeeQuote {
+  mode: FeeMode;
+  blockNumber: bigint; // latest block the quote was computed from
+  nextBaseFee: bigint;
+  maxFeePerGas: bigint; // legacy: the gas price
+  maxPriorityFeePerGas: bigint; // legacy: 0
+  effectiveGasPrice: bigint; // expected price per gas actually paid
+  targetBlocks: number;
+  percentile?: number;
+}
+
+const REWARD_PERCENTILES = [10, 25, 50, 75, 90];
+
+/** Reward percentile for a target inclusion time in blocks. */
+export function percentileForBlocks(blocks: number): number {
+  if (blocks <= 1) return 75;
+  if (blocks <= 3) return 50;
+  if (blocks <= 6) return 25;
+  return 10;
+}
+
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return 0n;
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** Highest base fee `blocks` full blocks from now (+12.5% per block). */
+function baseFeeCeiling(baseFee: bigint, blocks: number): bigint {
+  let fee = baseFee;
+  for (let i = 0; i < blocks; i++) fee = (fee * 9n) / 8n;
+  return fee;
+}
+
+export class FeeStrategy {
+  readonly opts: Required<Omit<FeeStrategyOptions, "percentile">> & { percentile?: number };
+
+  constructor(opts: FeeStrategyOptions) {
+    this.opts = { blockTimeSec: 12, ...opts };
+  }
+
+  get targetBlocks(): number {
+    return Math.max(1, Math.ceil(this.opts.targetInclusionSec / this.opts.blockTimeSec));
+  }
+
+  describe(): string {
+    if (this.opts.mode === "legacy") {
+      return `legacy gasPrice x${this.opts.gasPriceMultiplier}`;
+    }
+    const percentile = this.opts.percentile ?? percentileForBlocks(this.targetBlocks);
+    return `EIP-1559, inclusion within ~${this.targetBlocks} block(s), tip at p${percentile} of ${this.opts.historyBlocks} blocks`;
+  }
+
+  async quote(client: PublicClient): Promise<FeeQuote> {
+    return this.opts.mode === "legacy" ? this.legacyQuote(client) : this.eip1559Quote(client);
+  }
+
+  private async legacyQuote(client: PublicClient): Promise<FeeQuote> {
+    const [block, gasPrice] = await Promise.all([client.getBlock(), client.getGasPrice()]);
+    const boosted = BigInt(Math.floor(Number(gasPrice) * this.opts.gasPriceMultiplier));
+    return {
+      mode: "legacy",
+      blockNumber: block.number ?? 0n,
+      nextBaseFee: block.baseFeePerGas || 0n,
+      maxFeePerGas: boosted,
+      maxPriorityFeePerGas: 0n,
+      effectiveGasPrice: boosted,
+      targetBlocks: 1,
+    };
+  }
+
+  private async eip1559Quote(client: PublicClient): Promise<FeeQuote> {
+    const targetBlocks = this.targetBlocks;
+    const percentile = this.opts.percentile ?? percentileForBlocks(targetBlocks);
+    const rewardPercentiles = REWARD_PERCENTILES.includes(percentile)
+      ? REWARD_PERCENTILES
+      : [...REWARD_PERCENTILES, percentile].sort((a, b) => a - b);
+    const column = rewardPercentiles.indexOf(percentile);
+
+    const history = await client.getFeeHistory({
+      blockCount: this.opts.historyBlocks,
+      rewardPercentiles,
+    });
+
+    // baseFeePerGas has one extra entry: the base fee of the next block
+    const nextBaseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? 0n;
+    const rewards = (history.reward ?? []).map((r) => r[column]).filter((r) => r != null && r > 0n);
+    const tip = rewards.length > 0 ? median(rewards) : await client.estimateMaxPriorityFeePerGas();
+
+    const maxFeePerGas = baseFeeCeiling(nextBaseFee, targetBlocks) + tip;
+    return {
+      mode: "eip1559",
+      blockNumber: history.oldestBlock + BigInt(history.baseFeePerGas.length - 2),
+      nextBaseFee,
+      maxFeePerGas,
+      maxPriorityFeePerGas: tip,
+      effectiveGasPrice: nextBaseFee + tip,
+      targetBlocks,
+      percentile,
+    };
+  }
+}
+
+/** Fee fields for walletClient.sendTransaction. */
+export function feeFields(quote: FeeQuote) {
+  return quote.mode === "legacy"
+    ? { gasPrice: quote.maxFeePerGas }
+    : { maxFeePerGas: quote.maxFeePerGas, maxPriorityFeePerGas: quote.maxPriorityFeePerGas };
+}
+
+function scale(value: bigint, multiplier: number): bigint {
+  return (value * BigInt(Math.round(multiplier * 10_000))) / 10_000n;
+}
+
+/**
+ * Fees for a same-nonce replacement: both fee fields raised by at least
+ * `multiplier` over `prev` (nodes reject smaller bumps as underpriced), or
+ * to the current market when that is higher.
+ */
+export function bumpQuote(prev: FeeQuote, multiplier: number, market?: FeeQuote): FeeQuote {
+  const max = (a: bigint, b?: bigint) => (b != null && b > a ? b : a);
+  const maxPriorityFeePerGas =
+    prev.mode === "legacy" ? 0n : max(scale(prev.maxPriorityFeePerGas, multiplier), market?.maxPriorityFeePerGas);
+  const maxFeePerGas = max(max(scale(prev.maxFeePerGas, multiplier), market?.maxFeePerGas), maxPriorityFeePerGas);
+  const nextBaseFee = market?.nextBaseFee ?? prev.nextBaseFee;
+  const expected = prev.mode === "legacy" ? maxFeePerGas : nextBaseFee + maxPriorityFeePerGas;
+  return {
+    ...prev,
+    blockNumber: market?.blockNumber ?? prev.blockNumber,
+    nextBaseFee,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+    effectiveGasPrice: expected < maxFeePerGas ? expected : maxFeePerGas,
+  };
+}
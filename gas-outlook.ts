@@ -0,0 +1,169 @@
+import { formatGwei, type PublicClient } from "viem";
+
+// L1 base-fee outlook from eth_feeHistory: rolling percentiles over a window
+// of recent blocks (24h by default), the trend over the last hour, and
+// short-term predictions. The next block's base fee is exact (feeHistory
+// returns it); later blocks apply the EIP-1559 update rule assuming blocks
+// stay as full as they have been recently.
+//
+// The window is fetched once in chunks and then extended by the new blocks
+// on every refresh. Nodes that keep less fee history give a shorter window;
+// the outlook reports how much was covered.
+
+export const BLOCKS_PER_HOUR = 300; // 12s slots
+const MAX_FEE_HISTORY_BLOCKS = 1024; // per eth_feeHistory call on most nodes
+const RATIO_BLOCKS = 20; // recent blocks averaged for predictions
+const PREDICT_BLOCKS = 5;
+const FLAT_TREND_PERCENT = 5; // per hour
+
+export interface GasOutlookOptions {
+  windowHours: number;
+}
+
+export type GasTrend = "rising" | "falling" | "flat";
+
+export interface GasOutlook {
+  latestBlock: bigint;
+  baseFee: bigint; // of the latest block
+  nextBaseFee: bigint; // exact
+  predicted: bigint[]; // base fee 1..PREDICT_BLOCKS blocks ahead; [0] = nextBaseFee
+  coveredHours: number; // of the requested window
+  /** Base fee at a percentile (0..100) of the window. */
+  percentile(p: number): bigint;
+  /** Where a base fee ranks in the window, 0..100. */
+  rank(baseFee: bigint): number;
+  trend: GasTrend;
+  trendPercentPerHour: number;
+  gasUsedRatio: number; // average over recent blocks
+}
+
+interface BlockSample {
+  baseFee: bigint;
+  gasUsedRatio: number;
+}
+
+export function gwei(value: bigint): string {
+  return Number(formatGwei(value)).toFixed(2);
+}
+
+/** "next 12.31 gwei (p35 of 24h: p20 10.02 / p50 14.20), falling 8%/h, +5 blocks ~11.90" */
+export function formatGasOutlook(o: GasOutlook): string {
+  const hours = o.coveredHours >= 1 ? `${Math.round(o.coveredHours)}h` : `${Math.round(o.coveredHours * 60)}m`;
+  const trend = o.trend === "flat" ? "flat" : `${o.trend} ${Math.abs(o.trendPercentPerHour).toFixed(0)}%/h`;
+  return (
+    `next ${gwei(o.nextBaseFee)} gwei (p${o.rank(o.nextBaseFee).toFixed(0)} of ${hours}: ` +
+    `p20 ${gwei(o.percentile(20))} / p50 ${gwei(o.percentile(50))}), ${trend}, ` +
+    `+${o.predicted.length} blocks ~${gwei(o.predicted[o.predicted.length - 1])}`
+  );
+}
+
+export class GasOutlookTracker {
+  private readonly samples = new Map<number, BlockSample>();
+  private latest = -1;
+  private next = 0n;
+  private last: GasOutlook | null = null;
+
+  constructor(
+    private readonly client: PublicClient,
+    readonly opts: GasOutlookOptions = { windowHours: 24 }
+  ) {}
+
+  get windowBlocks(): number {
+    return Math.round(this.opts.windowHours * BLOCKS_PER_HOUR);
+  }
+
+  /** The outlook from the last refresh(), or null before the first. */
+  get current(): GasOutlook | null {
+    return this.last;
+  }
+
+  /** Fetch blocks since the last refresh (the whole window the first time). */
+  async refresh(): Promise<GasOutlook> {
+    const latest = Number(await this.client.getBlockNumber());
+    const oldest = Math.max(0, latest - this.windowBlocks + 1);
+    const from = Math.max(oldest, this.latest + 1);
+
+    // Newest chunk first: it carries the next block's base fee, and an older
+    // chunk the node no longer serves only shortens the window
+    for (let newest = latest; newest >= from; newest -= MAX_FEE_HISTORY_BLOCKS) {
+      const count = Math.min(MAX_FEE_HISTORY_BLOCKS, newest - from + 1);
+      let history;
+      try {
+        history = await this.client.getFeeHistory({
+          blockCount: count,
+          blockNumber: BigInt(newest),
+          rewardPercentiles: [],
+        });
+      } catch (error) {
+        if (newest === latest) throw error;
+        break;
+      }
+      const first = Number(history.oldestBlock);
+      history.gasUsedRatio.forEach((ratio, i) => {
+        this.samples.set(first + i, { baseFee: history.baseFeePerGas[i], gasUsedRatio: ratio });
+      });
+      if (newest === latest) this.next = history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? 0n;
+    }
+    for (const block of this.samples.keys()) {
+      if (block < oldest) this.samples.delete(block);
+    }
+    this.latest = latest;
+    this.last = this.build(latest);
+    return this.last;
+  }
+
+  private build(latest: number): GasOutlook {
+    const blocks = [...this.samples.keys()].sort((a, b) => a - b);
+    const fees = blocks.map((b) => this.samples.get(b)!.baseFee);
+    const sorted = [...fees].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const percentile = (p: number) =>
+      sorted.length === 0 ? this.next : sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+    const rank = (fee: bigint) => {
+      if (sorted.length === 0) return 50;
+      let below = 0;
+      while (below < sorted.length && sorted[below] < fee) below++;
+      return (below / sorted.length) * 100;
+    };
+
+    // EIP-1559: base fee moves by up to 1/8 per block, in proportion to how
+    // far the parent's gas used is from the target (half the limit)
+    const recent = blocks.slice(-RATIO_BLOCKS).map((b) => this.samples.get(b)!.gasUsedRatio);
+    const gasUsedRatio = recent.length > 0 ? recent.reduce((a, b) => a + b, 0) / recent.length : 0.5;
+    const step = BigInt(Math.round((gasUsedRatio - 0.5) * 2 * 125)); // per-mille of 1/8
+    const predicted = [this.next];
+    while (predicted.length < PREDICT_BLOCKS) {
+      const prev = predicted[predicted.length - 1];
+      predicted.push(prev + (prev * step) / 1000n);
+    }
+
+    // Least-squares slope over the last hour, relative to its mean
+    const hour = fees.slice(-BLOCKS_PER_HOUR).map((fee) => Number(fee));
+    let trendPercentPerHour = 0;
+    if (hour.length > 1) {
+      const n = hour.length;
+      const meanX = (n - 1) / 2;
+      const meanY = hour.reduce((a, b) => a + b, 0) / n;
+      let num = 0;
+      let den = 0;
+      hour.forEach((y, x) => {
+        num += (x - meanX) * (y - meanY);
+        den += (x - meanX) ** 2;
+      });
+      if (meanY > 0) trendPercentPerHour = ((num / den) * BLOCKS_PER_HOUR * 100) / meanY;
+    }
+
+    return {
+      latestBlock: BigInt(latest),
+      baseFee: fees[fees.length - 1] ?? this.next,
+      nextBaseFee: this.next,
+      predicted,
+      coveredHours: blocks.length / BLOCKS_PER_HOUR,
+      percentile,
+      rank,
+      trend:
+        Math.abs(trendPercentPerHour) < FLAT_TREND_PERCENT ? "flat" : trendPercentPerHour > 0 ? "rising" : "falling",
+      trendPercentPerHour,
+      gasUsedRatio,
+    };
+  }
+}
@@ -0,0 +1,294 @@
+#!/usr/bin/env tsx
+import { formatEther } from "viem";
+import { journalPath, readJournal, type FailedEntry, type SessionStartEntry } from "./journal";
+
+// Past mining sessions from the journal, totalled per session, day, wallet or
+// size. Only confirmed and failed transactions count, including those settled
+// by startup reconciliation, plus mined gap cancels (spend, no mint); dry-run
+// sessions are left out unless asked for.
+// Days are UTC.
+
+type GroupBy = "session" | "day" | "wallet" | "size";
+
+interface TxRow {
+  ts: string;
+  session: string | null;
+  wallet?: string;
+  sizeBytes?: number;
+  confirmed: boolean;
+  ethSpent: bigint;
+  estimatedEthBurn: bigint;
+  fctMinted: bigint;
+  usdSpent: number;
+}
+
+interface Group {
+  key: string;
+  txs: number;
+  failed: number;
+  ethSpent: bigint;
+  estimatedEthBurn: bigint; // of confirmed transactions, to compare with what they paid
+  confirmedSpent: bigint;
+  fctMinted: bigint;
+  usdSpent: number;
+}
+
+interface HistoryOptions {
+  by: GroupBy;
+  txs: boolean;
+  since?: string;
+  until?: string;
+  wallet?: string;
+  sizeKb?: number;
+  session?: string;
+  network?: string;
+  dryRun: boolean;
+  file: string;
+}
+
+function usage(): never {
+  console.log("Usage: npm run history -- [options]");
+  console.log("  --by session|day|wallet|size   Group totals (default: session)");
+  console.log("  --txs                          List transactions instead of totals");
+  console.log("  --since YYYY-MM-DD             From this day (UTC)");
+  console.log("  --until YYYY-MM-DD             Up to and including this day (UTC)");
+  console.log("  --wallet <address>             One wallet (a prefix is enough)");
+  console.log("  --size <KB>                    One transaction size");
+  console.log("  --session <id>                 One session");
+  console.log("  --network <name>               One network");
+  console.log("  --dry-run                      Dry-run sessions instead of real ones");
+  console.log("  --file <path>                  Journal to read (default: JOURNAL_PATH)");
+  process.exit(1);
+}
+
+function parseArgs(args: string[]): HistoryOptions {
+  const opts: HistoryOptions = { by: "session", txs: false, dryRun: false, file: journalPath() };
+  const day = /^\d{4}-\d{2}-\d{2}$/;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => args[++i] ?? usage();
+    if (arg === "--by") {
+      const by = value();
+      if (!["session", "day", "wallet", "size"].includes(by)) usage();
+      opts.by = by as GroupBy;
+    } else if (arg === "--txs") opts.txs = true;
+    else if (arg === "--dry-run") opts.dryRun = true;
+    else if (arg === "--since" || arg === "--until") {
+      const v = value();
+      if (!day.test(v)) usage();
+      if (arg === "--since") opts.since = v;
+      else opts.until = v;
+    } else if (arg === "--wallet") opts.wallet = value().toLowerCase();
+    else if (arg === "--size") {
+      const kb = Number(value());
+      if (!Number.isFinite(kb) || kb <= 0) usage();
+      opts.sizeKb = kb;
+    } else if (arg === "--session") opts.session = value();
+    else if (arg === "--network") opts.network = value();
+    else if (arg === "--file") opts.file = value();
+    else usage();
+  }
+  return opts;
+}
+
+const kb = (bytes?: number) => (bytes == null ? "-" : `${Number((bytes / 1024).toFixed(1))}KB`);
+const eth = (wei: bigint) => Number(formatEther(wei)).toFixed(6);
+const fct = (wei: bigint) => Number(formatEther(wei)).toFixed(2);
+
+/** Print rows in aligned columns: the first `leftColumns` left-aligned, the rest right-aligned. */
+export function printTable(header: string[], rows: string[][], leftColumns: number) {
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  const line = (cols: string[]) =>
+    cols.map((c, i) => (i < leftColumns ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("  ");
+  console.log(line(header));
+  for (const row of rows) console.log(line(row));
+}
+
+function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const entries = readJournal(opts.file);
+  if (entries.length === 0) {
+    console.log(`No journal entries in ${opts.file}`);
+    return;
+  }
+
+  const sessions = new Map<string, SessionStartEntry>();
+  for (const entry of entries) {
+    if (entry.event === "session-start" && entry.session) sessions.set(entry.session, entry);
+  }
+  const sessionMatches = (id: string | null) => {
+    const start = id ? sessions.get(id) : undefined;
+    if (opts.session && id !== opts.session) return false;
+    if (opts.network && start?.network !== opts.network) return false;
+    return (start?.dryRun ?? false) === opts.dryRun;
+  };
+  const dayMatches = (ts: string) =>
+    (!opts.since || ts.slice(0, 10) >= opts.since) && (!opts.until || ts.slice(0, 10) <= opts.until);
+
+  // A confirm failure left open is settled by a later reconcile, which is its row
+  const reconciledAt = new Map<string, number>();
+  entries.forEach((entry, i) => {
+    if (entry.event === "reconciled" && entry.status !== "pending") {
+      reconciledAt.set(`${entry.wallet.toLowerCase()}:${entry.nonce}`, i);
+    }
+  });
+  const superseded = (entry: FailedEntry, i: number) =>
+    entry.wallet != null &&
+    entry.nonce != null &&
+    (reconciledAt.get(`${entry.wallet.toLowerCase()}:${entry.nonce}`) ?? -1) > i;
+
+  const rows: TxRow[] = [];
+  for (const [i, entry] of entries.entries()) {
+    if (entry.event === "gap-cancel") {
+      if (entry.ethSpent == null) continue; // sent, not mined yet
+    } else if (entry.event !== "confirmed" && entry.event !== "failed" && entry.event !== "reconciled") continue;
+    if (entry.event === "reconciled" && entry.status === "pending") continue;
+    if (entry.event === "failed" && superseded(entry, i)) continue;
+    if (!sessionMatches(entry.session) || !dayMatches(entry.ts)) continue;
+    if (opts.wallet && !entry.wallet?.toLowerCase().startsWith(opts.wallet)) continue;
+    const sizeBytes = entry.event === "gap-cancel" ? undefined : entry.sizeBytes;
+    if (opts.sizeKb != null && Math.round((sizeBytes ?? 0) / 1024) !== Math.round(opts.sizeKb)) continue;
+    const ethSpent = BigInt(entry.ethSpent ?? "0");
+    const confirmed = entry.event === "confirmed" || (entry.event === "reconciled" && entry.status === "confirmed");
+    const ethPriceUsd =
+      (entry.event === "confirmed" ? entry.ethPriceUsd : sessions.get(entry.session ?? "")?.ethPriceUsd) ?? 0;
+    rows.push({
+      ts: entry.ts,
+      session: entry.session,
+      wallet: entry.wallet,
+      sizeBytes,
+      confirmed,
+      ethSpent,
+      estimatedEthBurn: confirmed ? BigInt(entry.estimatedEthBurn) : 0n,
+      fctMinted: confirmed ? BigInt(entry.fctMinted ?? "0") : 0n,
+      usdSpent: Number(formatEther(ethSpent)) * ethPriceUsd,
+    });
+  }
+
+  console.log(`Journal: ${opts.file}${opts.dryRun ? " (dry-run sessions)" : ""}`);
+
+  if (opts.txs) {
+    printTable(
+      ["Time (UTC)", "Session", "Wallet", "Size", "Status", "ETH spent", "FCT minted"],
+      rows.map((r) => [
+        r.ts.slice(0, 19).replace("T", " "),
+        r.session ?? "-",
+        r.wallet ?? "-",
+        kb(r.sizeBytes),
+        r.confirmed ? "confirmed" : "failed",
+        eth(r.ethSpent),
+        r.confirmed ? fct(r.fctMinted) : "-",
+      ]),
+      5
+    );
+    console.log(`${rows.length} transaction(s)`);
+    return;
+  }
+
+  const keyOf = (r: TxRow): string => {
+    switch (opts.by) {
+      case "session":
+        return r.session ?? "-";
+      case "day":
+        return r.ts.slice(0, 10);
+      case "wallet":
+        return r.wallet ?? "-";
+      case "size":
+        return kb(r.sizeBytes);
+    }
+  };
+  const empty = (key: string): Group => ({
+    key,
+    txs: 0,
+    failed: 0,
+    ethSpent: 0n,
+    estimatedEthBurn: 0n,
+    confirmedSpent: 0n,
+    fctMinted: 0n,
+    usdSpent: 0,
+  });
+
+  const groups = new Map<string, Group>();
+  // Sessions that sent nothing are still sessions
+  if (opts.by === "session" && !opts.wallet && opts.sizeKb == null) {
+    for (const [id, start] of sessions) {
+      if (sessionMatches(id) && dayMatches(start.ts)) groups.set(id, empty(id));
+    }
+  }
+  const total = empty("Total");
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (!groups.has(key)) groups.set(key, empty(key));
+    for (const group of [groups.get(key)!, total]) {
+      if (row.confirmed) {
+        group.txs++;
+        group.estimatedEthBurn += row.estimatedEthBurn;
+        group.confirmedSpent += row.ethSpent;
+      } else {
+        group.failed++;
+      }
+      group.ethSpent += row.ethSpent;
+      group.fctMinted += row.fctMinted;
+      group.usdSpent += row.usdSpent;
+    }
+  }
+
+  const sorted = [...groups.values()].sort((a, b) => {
+    if (opts.by === "size") return parseFloat(a.key) - parseFloat(b.key);
+    if (opts.by === "wallet") return a.ethSpent === b.ethSpent ? 0 : a.ethSpent < b.ethSpent ? 1 : -1;
+    return a.key.localeCompare(b.key);
+  });
+  const describeSession = (id: string) => {
+    const start = sessions.get(id);
+    return start ? `${start.ts.slice(0, 16).replace("T", " ")} ${start.network} ${start.mode}` : "";
+  };
+  const costPerFct = (g: Group) => (g.fctMinted > 0n ? (g.ethSpent * 10n ** 18n) / g.fctMinted : null);
+  const vsEstimate = (g: Group) =>
+    g.estimatedEthBurn > 0n
+      ? `${((Number(g.confirmedSpent) / Number(g.estimatedEthBurn) - 1) * 100).toFixed(1)}%`
+      : "-";
+  const toRow = (g: Group) => {
+    const perFct = costPerFct(g);
+    return [
+      g.key,
+      opts.by === "session" ? describeSession(g.key) : "",
+      String(g.txs),
+      String(g.failed),
+      eth(g.ethSpent),
+      fct(g.fctMinted),
+      perFct == null ? "-" : Number(formatEther(perFct)).toExponential(3),
+      `$${g.usdSpent.toFixed(2)}`,
+      vsEstimate(g),
+    ];
+  };
+
+  const header = [
+    opts.by[0].toUpperCase() + opts.by.slice(1),
+    "Started",
+    "Txs",
+    "Failed",
+    "ETH spent",
+    "FCT minted",
+    "ETH/FCT",
+    "USD",
+    "vs est.",
+  ];
+  const table = [...sorted.map(toRow), ...(sorted.length > 1 ? [toRow(total)] : [])];
+  // The Started column only means something per session
+  const keep = header.map((_, i) => i !== 1 || opts.by === "session");
+  printTable(
+    header.filter((_, i) => keep[i]),
+    table.map((row) => row.filter((_, i) => keep[i])),
+    opts.by === "session" ? 2 : 1
+  );
+  if (sorted.length === 0) console.log("No matching transactions");
+}
+
+if (import.meta.main) {
+  try {
+    main();
+  } catch (e) {
+    console.error(e);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,427 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import type { MiningEngine, Reconciliation, SessionSummary, UnsettledNonce } from "./mining-engine";
+
+// Append-only JSONL record of every mining step, so hashes, nonces, fees and
+// estimated vs actual cost/mint survive the process. One JSON object per
+// line; bigints are written as decimal strings. Lines are appended
+// synchronously so an entry is on disk before the miner moves on.
+//
+//   JOURNAL_PATH=./mining-journal.jsonl   where to write (default shown)
+
+export const DEFAULT_JOURNAL_FILE = path.join(process.cwd(), "mining-journal.jsonl");
+
+export function journalPath(): string {
+  return process.env.JOURNAL_PATH || DEFAULT_JOURNAL_FILE;
+}
+
+type Wei = string; // bigint as a decimal string
+
+interface EntryBase {
+  ts: string; // ISO time
+  session: string | null;
+}
+
+export interface SessionStartEntry extends EntryBase {
+  event: "session-start";
+  network: string;
+  mode: "interactive" | "auto";
+  dryRun: boolean;
+  wallets: string[];
+  spendCap: Wei;
+  sizeBytes: number;
+  ethPriceUsd: number;
+  config: Record<string, unknown>; // effective miner settings
+}
+
+export interface EstimatedEntry extends EntryBase {
+  event: "estimated";
+  wallet: string;
+  sizeBytes: number;
+  l1Block: string;
+  baseFee: Wei;
+  effectiveGasPrice: Wei;
+  estimatedEthBurn: Wei;
+  estimatedFct: Wei;
+  fctMintRate: string;
+  ethPriceUsd: number;
+}
+
+export interface SubmittedEntry extends EntryBase {
+  event: "submitted";
+  wallet: string;
+  nonce: number;
+  sizeBytes: number;
+  l1Hash: string;
+  facetHash: string;
+  maxFeePerGas: Wei;
+  maxPriorityFeePerGas: Wei;
+  estimatedEthBurn: Wei;
+  estimatedFct: Wei;
+  simulated: boolean;
+}
+
+export interface ReplacedEntry extends EntryBase {
+  event: "replaced";
+  wallet: string;
+  nonce: number;
+  kind: string;
+  l1Hash?: string;
+  facetHash?: string;
+  maxFeePerGas: Wei;
+  maxPriorityFeePerGas: Wei;
+  error?: string;
+}
+
+export interface ConfirmedEntry extends EntryBase {
+  event: "confirmed";
+  wallet: string;
+  nonce: number;
+  sizeBytes: number;
+  l1Hash: string;
+  facetHash: string;
+  l1Block: string;
+  facetBlock: string;
+  gasUsed: string;
+  ethSpent: Wei;
+  baseFeeBurned: Wei;
+  priorityFee: Wei;
+  fctMinted: Wei;
+  estimatedEthBurn: Wei;
+  estimatedFct: Wei;
+  ethPriceUsd: number;
+  replacements: number;
+  simulated: boolean;
+}
+
+export interface FailedEntry extends EntryBase {
+  event: "failed";
+  stage: string;
+  wallet?: string;
+  nonce?: number;
+  sizeBytes?: number;
+  l1Hash?: string;
+  facetHash?: string;
+  error: string;
+  ethSpent?: Wei; // a mined cancel
+  dropped?: boolean; // the nonce was released for reuse
+}
+
+/** A cancel that filled a nonce gap: written when sent, and again with its cost once mined. */
+export interface GapCancelEntry extends EntryBase {
+  event: "gap-cancel";
+  wallet: string;
+  nonce: number;
+  l1Hash: string;
+  maxFeePerGas: Wei;
+  maxPriorityFeePerGas: Wei;
+  l1Block?: string; // once mined
+  gasUsed?: string;
+  ethSpent?: Wei;
+  baseFeeBurned?: Wei;
+  priorityFee?: Wei;
+}
+
+/** Startup check of a transaction an earlier run never saw settle; carries that run's session. */
+export interface ReconciledEntry extends EntryBase {
+  event: "reconciled";
+  status: "confirmed" | "dropped" | "pending";
+  reason: string;
+  wallet: string;
+  nonce: number;
+  sizeBytes: number;
+  l1Hash?: string;
+  facetHash?: string;
+  l1Block?: string;
+  facetBlock?: string;
+  ethSpent?: Wei;
+  baseFeeBurned?: Wei;
+  priorityFee?: Wei;
+  fctMinted?: Wei;
+  estimatedEthBurn: Wei;
+  estimatedFct: Wei;
+  cancelled: boolean;
+}
+
+export interface SessionEndEntry extends EntryBase {
+  event: "session-end";
+  transactions: number;
+  ethSpent: Wei;
+  baseFeeBurned: Wei;
+  priorityFees: Wei;
+  fctMinted: Wei;
+  simulated: boolean;
+  stopped: boolean;
+}
+
+export type JournalEntry =
+  | SessionStartEntry
+  | EstimatedEntry
+  | SubmittedEntry
+  | ReplacedEntry
+  | ConfirmedEntry
+  | FailedEntry
+  | GapCancelEntry
+  | ReconciledEntry
+  | SessionEndEntry;
+
+type Omitted<E> = E extends JournalEntry ? Omit<E, "ts" | "session"> : never;
+
+function errorMessage(error: unknown): string {
+  const e = error as { shortMessage?: string; message?: string } | undefined;
+  return e?.shortMessage || e?.message || String(error);
+}
+
+export class MiningJournal {
+  private session: string | null = null;
+
+  constructor(readonly file = journalPath()) {}
+
+  get sessionId(): string | null {
+    return this.session;
+  }
+
+  append(entry: Omitted<JournalEntry> & { session?: string | null }) {
+    const line = JSON.stringify({ ts: new Date().toISOString(), session: this.session, ...entry }, (_, v) =>
+      typeof v === "bigint" ? v.toString() : v
+    );
+    fs.appendFileSync(this.file, line + "\n", { mode: 0o600 });
+  }
+
+  /** Start a session; later entries carry its ID until endSession(). */
+  startSession(info: Omit<SessionStartEntry, "ts" | "session" | "event">): string {
+    this.session = `${new Date().toISOString().slice(0, 10).replace(/-/g, "")}-${randomBytes(4).toString("hex")}`;
+    this.append({ event: "session-start", ...info });
+    return this.session;
+  }
+
+  endSession(summary: SessionSummary) {
+    this.append({
+      event: "session-end",
+      transactions: summary.transactions,
+      ethSpent: summary.ethSpent.toString(),
+      baseFeeBurned: summary.baseFeeBurned.toString(),
+      priorityFees: summary.priorityFees.toString(),
+      fctMinted: summary.fctMinted.toString(),
+      simulated: summary.simulated,
+      stopped: summary.stopped,
+    });
+    this.session = null;
+  }
+
+  recordReconciled(tx: UnsettledTransaction, r: Reconciliation) {
+    this.append({
+      event: "reconciled",
+      session: tx.session,
+      status: r.status,
+      reason: r.reason,
+      wallet: tx.address,
+      nonce: tx.nonce,
+      sizeBytes: tx.sizeBytes,
+      l1Hash: r.l1Hash,
+      facetHash: r.facetHash,
+      l1Block: r.cost?.l1Block.toString(),
+      facetBlock: r.facetBlock?.toString(),
+      ethSpent: r.cost?.total.toString(),
+      baseFeeBurned: r.cost?.baseFeeBurned.toString(),
+      priorityFee: r.cost?.priorityFee.toString(),
+      fctMinted: r.status === "confirmed" ? r.fctMinted.toString() : undefined,
+      estimatedEthBurn: tx.estimatedEthBurn.toString(),
+      estimatedFct: tx.estimatedFct.toString(),
+      cancelled: r.cancelled,
+    });
+  }
+
+  /** Write an entry for every step of every transaction the engine sends. */
+  attach(engine: MiningEngine): () => void {
+    const detachers = [
+      engine.on("estimate", ({ estimate, wallet }) => {
+        if (!wallet) return; // size quotes, not a transaction
+        this.append({
+          event: "estimated",
+          wallet: wallet.account.address,
+          sizeBytes: estimate.sizeBytes,
+          l1Block: estimate.snapshot.blockNumber.toString(),
+          baseFee: estimate.baseFee.toString(),
+          effectiveGasPrice: estimate.effectiveGasPrice.toString(),
+          estimatedEthBurn: estimate.estimatedEthBurn.toString(),
+          estimatedFct: estimate.fctMintAmount.toString(),
+          fctMintRate: estimate.fctMintRate.toString(),
+          ethPriceUsd: estimate.ethPriceUsd,
+        });
+      }),
+      engine.on("submitted", (tx) => {
+        this.append({
+          event: "submitted",
+          wallet: tx.wallet.account.address,
+          nonce: tx.nonce,
+          sizeBytes: tx.estimate.sizeBytes,
+          l1Hash: tx.l1Hash,
+          facetHash: tx.facetHash,
+          maxFeePerGas: tx.fees.maxFeePerGas.toString(),
+          maxPriorityFeePerGas: tx.fees.maxPriorityFeePerGas.toString(),
+          estimatedEthBurn: tx.estimate.estimatedEthBurn.toString(),
+          estimatedFct: tx.estimate.fctMintAmount.toString(),
+          simulated: tx.simulated,
+        });
+      }),
+      engine.on("replaced", ({ submitted, attempt }) => {
+        this.append({
+          event: "replaced",
+          wallet: submitted.wallet.account.address,
+          nonce: submitted.nonce,
+          kind: attempt.kind,
+          l1Hash: attempt.l1Hash,
+          facetHash: attempt.facetHash,
+          maxFeePerGas: attempt.fees.maxFeePerGas.toString(),
+          maxPriorityFeePerGas: attempt.fees.maxPriorityFeePerGas.toString(),
+          error: attempt.error,
+        });
+      }),
+      engine.on("confirmed", (result) => {
+        this.append({
+          event: "confirmed",
+          wallet: result.wallet.account.address,
+          nonce: result.nonce,
+          sizeBytes: result.estimate.sizeBytes,
+          l1Hash: result.l1Hash,
+          facetHash: result.facetHash,
+          l1Block: result.cost.l1Block.toString(),
+          facetBlock: result.facetBlock.toString(),
+          gasUsed: result.cost.gasUsed.toString(),
+          ethSpent: result.ethSpent.toString(),
+          baseFeeBurned: result.cost.baseFeeBurned.toString(),
+          priorityFee: result.cost.priorityFee.toString(),
+          fctMinted: result.fctMinted.toString(),
+          estimatedEthBurn: result.estimate.estimatedEthBurn.toString(),
+          estimatedFct: result.estimate.fctMintAmount.toString(),
+          ethPriceUsd: result.estimate.ethPriceUsd,
+          replacements: result.attempts.length - 1,
+          simulated: result.simulated,
+        });
+      }),
+      engine.on("failed", (failure) => {
+        this.append({
+          event: "failed",
+          stage: failure.stage,
+          wallet: failure.wallet?.account.address,
+          nonce: failure.nonce,
+          sizeBytes: failure.estimate?.sizeBytes,
+          l1Hash: failure.l1Hash,
+          facetHash: failure.facetHash,
+          error: errorMessage(failure.error),
+          ethSpent: failure.cost?.total.toString(),
+          dropped: failure.dropped,
+        });
+      }),
+      engine.on("gapCancel", ({ wallet, nonce, attempt, cost }) => {
+        this.append({
+          event: "gap-cancel",
+          wallet: wallet.account.address,
+          nonce,
+          l1Hash: attempt.l1Hash!,
+          maxFeePerGas: attempt.fees.maxFeePerGas.toString(),
+          maxPriorityFeePerGas: attempt.fees.maxPriorityFeePerGas.toString(),
+          l1Block: cost?.l1Block.toString(),
+          gasUsed: cost?.gasUsed.toString(),
+          ethSpent: cost?.total.toString(),
+          baseFeeBurned: cost?.baseFeeBurned.toString(),
+          priorityFee: cost?.priorityFee.toString(),
+        });
+      }),
+    ];
+    return () => detachers.forEach((detach) => detach());
+  }
+}
+
+/** Every entry in the journal, oldest first; unreadable lines are skipped. */
+export function readJournal(file = journalPath()): JournalEntry[] {
+  if (!fs.existsSync(file)) return [];
+  const entries: JournalEntry[] = [];
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // A crash mid-write can leave a partial last line
+    }
+  }
+  return entries;
+}
+
+/** A submitted nonce (mining or gap cancel) with no entry after it that settles it. */
+export interface UnsettledTransaction extends UnsettledNonce {
+  session: string | null;
+  submittedAt: string; // ISO time
+  sizeBytes: number;
+  estimatedEthBurn: bigint;
+  estimatedFct: bigint;
+}
+
+/** Transactions earlier runs sent but never saw settle, oldest first. Dry runs are skipped. */
+export function unsettledTransactions(entries: JournalEntry[]): UnsettledTransaction[] {
+  const open = new Map<string, UnsettledTransaction>();
+  const key = (wallet: string, nonce: number) => `${wallet.toLowerCase()}:${nonce}`;
+  for (const entry of entries) {
+    switch (entry.event) {
+      case "submitted":
+        if (entry.simulated) break;
+        open.set(key(entry.wallet, entry.nonce), {
+          session: entry.session,
+          submittedAt: entry.ts,
+          address: entry.wallet as `0x${string}`,
+          nonce: entry.nonce,
+          sizeBytes: entry.sizeBytes,
+          estimatedEthBurn: BigInt(entry.estimatedEthBurn),
+          estimatedFct: BigInt(entry.estimatedFct),
+          attempts: [
+            { kind: "original", l1Hash: entry.l1Hash as `0x${string}`, facetHash: entry.facetHash as `0x${string}` },
+          ],
+        });
+        break;
+      case "replaced": {
+        const tx = open.get(key(entry.wallet, entry.nonce));
+        if (tx && entry.l1Hash) {
+          tx.attempts.push({
+            kind: entry.kind as UnsettledNonce["attempts"][number]["kind"],
+            l1Hash: entry.l1Hash as `0x${string}`,
+            facetHash: entry.facetHash as `0x${string}` | undefined,
+          });
+        }
+        break;
+      }
+      case "gap-cancel":
+        if (entry.ethSpent != null) {
+          open.delete(key(entry.wallet, entry.nonce));
+          break;
+        }
+        open.set(key(entry.wallet, entry.nonce), {
+          session: entry.session,
+          submittedAt: entry.ts,
+          address: entry.wallet as `0x${string}`,
+          nonce: entry.nonce,
+          sizeBytes: 0,
+          estimatedEthBurn: 0n,
+          estimatedFct: 0n,
+          attempts: [{ kind: "cancel", l1Hash: entry.l1Hash as `0x${string}` }],
+        });
+        break;
+      case "confirmed":
+        if (!entry.simulated) open.delete(key(entry.wallet, entry.nonce));
+        break;
+      case "failed":
+        // A confirm failure that neither mined nor dropped (an RPC outage, say)
+        // can still land, so it stays open for the next start to reconcile
+        if (!entry.wallet || entry.nonce == null) break;
+        if (entry.stage === "submit" || entry.ethSpent != null || entry.dropped) {
+          open.delete(key(entry.wallet, entry.nonce));
+        }
+        break;
+      case "reconciled":
+        if (entry.status !== "pending") open.delete(key(entry.wallet, entry.nonce));
+        break;
+    }
+  }
+  return [...open.values()];
+}
@@ -0,0 +1,192 @@
+#!/usr/bin/env tsx
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { keccak256, concat, toHex, hexToBytes, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { promptHidden } from "./prompt";
+
+export interface ScryptParams {
+  kdf: "scrypt";
+  kdfparams: { dklen: number; n: number; r: number; p: number; salt: string };
+}
+
+export interface Pbkdf2Params {
+  kdf: "pbkdf2";
+  kdfparams: { dklen: number; c: number; prf: "hmac-sha256"; salt: string };
+}
+
+export type KeystoreKdf = ScryptParams | Pbkdf2Params;
+
+// Ethereum V3 JSON keystore (the format geth, MetaMask and foundry export)
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  address: string;
+  crypto: KeystoreKdf & {
+    cipher: "aes-128-ctr";
+    ciphertext: string;
+    cipherparams: { iv: string };
+    mac: string;
+  };
+  Crypto?: KeystoreV3["crypto"]; // older geth versions capitalise it
+}
+
+export const DEFAULT_KEYSTORE_DIR = path.join(process.cwd(), "keystores");
+
+function deriveKey(ks: KeystoreKdf, password: string): Buffer {
+  const salt = Buffer.from(ks.kdfparams.salt, "hex");
+  if (ks.kdf === "scrypt") {
+    const params = ks.kdfparams;
+    return crypto.scryptSync(password.normalize("NFKC"), salt, params.dklen, {
+      N: params.n,
+      r: params.r,
+      p: params.p,
+      maxmem: 256 * params.n * params.r * params.p,
+    });
+  }
+  if (ks.kdf === "pbkdf2") {
+    const params = ks.kdfparams;
+    if (params.prf !== "hmac-sha256") throw new Error(`Unsupported pbkdf2 prf: ${params.prf}`);
+    return crypto.pbkdf2Sync(password.normalize("NFKC"), salt, params.c, params.dklen, "sha256");
+  }
+  throw new Error(`Unsupported keystore kdf: ${(ks as { kdf: string }).kdf}`);
+}
+
+function macOf(derivedKey: Buffer, ciphertext: Buffer): string {
+  return keccak256(concat([derivedKey.subarray(16, 32), ciphertext])).slice(2);
+}
+
+export function decryptKeystore(keystore: KeystoreV3, password: string): Hex {
+  const ks = keystore.crypto ?? keystore.Crypto;
+  if (keystore.version !== 3 || !ks) throw new Error("Not a V3 keystore");
+  if (ks.cipher !== "aes-128-ctr") throw new Error(`Unsupported keystore cipher: ${ks.cipher}`);
+
+  const derivedKey = deriveKey(ks, password);
+  const ciphertext = Buffer.from(ks.ciphertext, "hex");
+  if (macOf(derivedKey, ciphertext) !== ks.mac.toLowerCase()) {
+    throw new Error("Wrong keystore password (MAC mismatch)");
+  }
+
+  const decipher = crypto.createDecipheriv(
+    "aes-128-ctr",
+    derivedKey.subarray(0, 16),
+    Buffer.from(ks.cipherparams.iv, "hex")
+  );
+  const privateKey = toHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+
+  const address = privateKeyToAccount(privateKey).address.slice(2).toLowerCase();
+  if (keystore.address && keystore.address.replace(/^0x/, "").toLowerCase() !== address) {
+    throw new Error("Keystore address does not match the decrypted key");
+  }
+  return privateKey;
+}
+
+export function encryptKeystore(
+  privateKey: Hex,
+  password: string,
+  opts: { kdf?: "scrypt" | "pbkdf2" } = {}
+): KeystoreV3 {
+  const salt = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(16);
+  const kdf = opts.kdf ?? "scrypt";
+  const ks: KeystoreKdf =
+    kdf === "scrypt"
+      ? { kdf, kdfparams: { dklen: 32, n: 262144, r: 8, p: 1, salt: salt.toString("hex") } }
+      : { kdf, kdfparams: { dklen: 32, c: 262144, prf: "hmac-sha256", salt: salt.toString("hex") } };
+
+  const derivedKey = deriveKey(ks, password);
+  const cipher = crypto.createCipheriv("aes-128-ctr", derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(hexToBytes(privateKey)), cipher.final()]);
+
+  return {
+    version: 3,
+    id: crypto.randomUUID(),
+    address: privateKeyToAccount(privateKey).address.slice(2).toLowerCase(),
+    crypto: {
+      cipher: "aes-128-ctr",
+      ...ks,
+      ciphertext: ciphertext.toString("hex"),
+      cipherparams: { iv: iv.toString("hex") },
+      mac: macOf(derivedKey, ciphertext),
+    },
+  };
+}
+
+export function readKeystoreFile(file: string): KeystoreV3 {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as KeystoreV3;
+  } catch (error: any) {
+    throw new Error(`Cannot read keystore ${file}: ${error?.message || error}`);
+  }
+}
+
+// import: encrypt a raw private key into a new keystore file
+async function importKey(args: string[]) {
+  const outIndex = args.indexOf("--out");
+  const kdf = args.includes("--pbkdf2") ? "pbkdf2" : "scrypt";
+
+  let privateKey = (await promptHidden("Private key to import (0x + 64 hex): ")).trim() as Hex;
+  if (!privateKey.startsWith("0x")) privateKey = `0x${privateKey}`;
+  if (!/^0x[0-9a-fA-F]{64}$/.test(privateKey)) {
+    console.error("Error: expected 0x + 64 hex chars");
+    process.exit(1);
+  }
+
+  const password = await promptHidden("New keystore password: ");
+  const confirm = await promptHidden("Repeat password: ");
+  if (!password || password !== confirm) {
+    console.error("Error: passwords are empty or do not match");
+    process.exit(1);
+  }
+
+  console.log(`Encrypting (${kdf})...`);
+  const keystore = encryptKeystore(privateKey, password, { kdf });
+  const file =
+    outIndex >= 0
+      ? path.resolve(args[outIndex + 1])
+      : path.join(DEFAULT_KEYSTORE_DIR, `0x${keystore.address}.json`);
+  if (fs.existsSync(file)) {
+    console.error(`Error: ${file} already exists`);
+    process.exit(1);
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(keystore, null, 2) + "\n", { mode: 0o600 });
+
+  console.log(`✅ Keystore written: ${file}`);
+  console.log(`   Address: 0x${keystore.address}`);
+  console.log("");
+  console.log("Add to .env (and remove PRIVATE_KEY):");
+  console.log(`  KEYSTORE_PATH=${path.relative(process.cwd(), file)}`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === "import") {
+    await importKey(args);
+    return;
+  }
+
+  if (command === "address") {
+    const file = args[0] || process.env.KEYSTORE_PATH;
+    if (!file) {
+      console.error("Error: pass a keystore file or set KEYSTORE_PATH");
+      process.exit(1);
+    }
+    console.log(`0x${readKeystoreFile(file).address}`);
+    return;
+  }
+
+  console.log("Usage:");
+  console.log("  npm run keystore import [--out <file>] [--pbkdf2]  - Encrypt a raw key into a V3 keystore");
+  console.log("  npm run keystore address [<file>]                  - Show the address of a keystore");
+  process.exit(command ? 1 : 0);
+}
+
+if (import.meta.main) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
@@ -1,13 +1,13 @@
 #!/usr/bin/env bun
 import { 
   createPublicClient,
-  http,
   formatEther,
   type Hash
 } from 'viem';
 import { computeFacetTransactionHash } from '@0xfacet/sdk/utils';
 import * as dotenv from 'dotenv';
 import { getNetworkConfig } from './config';
+import { l1Transport, facetTransport } from './rpc';
 
 dotenv.config();
 
@@ -17,7 +17,7 @@ const networkConfig = getNetworkConfig();
 // L1 client for fetching transaction details
 const publicClient = createPublicClient({
   chain: networkConfig.l1Chain,
-  transport: http(networkConfig.l1RpcUrl),
+  transport: l1Transport(),
 });
 
 // Get Facet chain configuration from network config
@@ -25,7 +25,7 @@ const facetChain = networkConfig.facetChain;
 
 const facetClient = createPublicClient({
   chain: facetChain,
-  transport: http(networkConfig.facetRpcUrl),
+  transport: facetTransport(),
 });
 
 async function getL2HashFromL1(l1Hash: Hash): Promise<{
@@ -243,7 +243,7 @@ async function main() {
       console.log('L2 Transaction Hash:', result.l2Hash);
       console.log('');
       console.log('View on Facet Explorer:');
-      console.log(`  https://explorer.facet.org/tx/${result.l2Hash}`);
+      console.log(`  ${networkConfig.facetExplorerUrl}/tx/${result.l2Hash}`);
     }
   } else {
     const result = await getL2HashFromL1(l1Hash);
@@ -252,7 +252,7 @@ async function main() {
       console.log('\n=== L1 to L2 Hash Mapping ===');
       console.log('L1 Transaction Hash:', result.l1Hash);
       console.log('L1 Block:', result.l1Block.toString());
-      console.log('L1 Etherscan:', `https://etherscan.io/tx/${result.l1Hash}`);
+      console.log('L1 Etherscan:', `${networkConfig.l1ExplorerUrl}/tx/${result.l1Hash}`);
       console.log('');
       console.log('Transaction Details:');
       console.log('  From:', result.from);
@@ -270,7 +270,7 @@ async function main() {
       }
       console.log('');
       console.log('View on Facet Explorer:');
-      console.log(`  https://explorer.facet.org/tx/${result.l2Hash}`);
+      console.log(`  ${networkConfig.facetExplorerUrl}/tx/${result.l2Hash}`);
     }
   }
 }
@@ -0,0 +1,52 @@
+// list-wallets.ts
+import 'dotenv/config';
+import { createPublicClient, formatUnits, type Address } from 'viem';
+import { getNetworkConfig } from './config';
+import { l1Transport, facetTransport } from './rpc';
+import { loadAccountAddresses, describeAccountSource } from './account';
+import { ERC20_ABI } from './abi';
+
+// 列出所有配置的地址（keystore / HD_PATH 派生 / PRIVATE_KEY / 远程签名）及余额：
+// L1 ETH、Facet 上的 ETH（WETH）、FCT（Facet 原生币）、wFCT
+async function main() {
+  const conf = getNetworkConfig();
+  const l1 = createPublicClient({ chain: conf.l1Chain, transport: l1Transport() });
+  const facet = createPublicClient({ chain: conf.facetChain, transport: facetTransport() });
+  const addresses = await loadAccountAddresses();
+
+  const tokenBalance = (token: Address, owner: Address) =>
+    conf.tradingEnabled
+      ? facet.readContract({ address: token, abi: ERC20_ABI, functionName: 'balanceOf', args: [owner] })
+      : Promise.resolve(null);
+
+  const rows = await Promise.all(addresses.map(async (address, index) => {
+    const [l1Eth, fct, weth, wfct] = await Promise.all([
+      l1.getBalance({ address }),
+      facet.getBalance({ address }),
+      tokenBalance(conf.weth, address),
+      tokenBalance(conf.wfct, address),
+    ]);
+    return { index, address, l1Eth, fct, weth, wfct };
+  }));
+
+  const fmt = (v: bigint | null) => (v == null ? '-' : Number(formatUnits(v, 18)).toFixed(6));
+  const header = ['#', 'Address', 'L1 ETH', 'Facet ETH', 'FCT', 'wFCT'];
+  const table = rows.map((r) => [String(r.index), r.address, fmt(r.l1Eth), fmt(r.weth), fmt(r.fct), fmt(r.wfct)]);
+  const widths = header.map((h, i) => Math.max(h.length, ...table.map((row) => row[i].length)));
+  const line = (cols: string[]) => cols.map((c, i) => (i < 2 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join('  ');
+
+  console.log(`网络: ${conf.name}，账户来源: ${describeAccountSource()}，共 ${rows.length} 个地址`);
+  console.log(line(header));
+  for (const row of table) console.log(line(row));
+
+  const sum = (pick: (r: typeof rows[number]) => bigint | null) =>
+    rows.some((r) => pick(r) == null) ? null : rows.reduce((s, r) => s + pick(r)!, 0n);
+  if (rows.length > 1) {
+    console.log(line(['', 'Total', fmt(sum((r) => r.l1Eth)), fmt(sum((r) => r.weth)), fmt(sum((r) => r.fct)), fmt(sum((r) => r.wfct))]));
+  }
+  if (!conf.tradingEnabled) console.log(`（${conf.name} 没有 WETH/wFCT 合约，代币余额显示为 -）`);
+}
+
+if (import.meta.main) {
+  main().catch((e) => { console.error(e); process.exit(1); });
+}
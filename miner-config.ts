@@ -0,0 +1,326 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as dotenv from "dotenv";
+import { parseSchedule } from "./schedule";
+import { parseBudgetAmount } from "./budget";
+import { DEFAULT_PAYLOAD, parsePayload } from "./payload";
+
+// Every environment variable facet-miner.ts reads, with its type, range,
+// default and description. Invalid values are rejected instead of silently
+// falling back to the default.
+
+type SettingKind = "boolean" | "number" | "integer" | "enum" | "numberList" | "text";
+
+interface Setting<T> {
+  env: string;
+  kind: SettingKind;
+  default: T;
+  description: string;
+  min?: number;
+  max?: number;
+  values?: readonly string[];
+}
+
+const TRUE_VALUES = ["1", "true", "yes", "y"];
+const FALSE_VALUES = ["0", "false", "no", "n"];
+
+function bool(env: string, def: boolean, description: string): Setting<boolean> {
+  return { env, kind: "boolean", default: def, description };
+}
+
+function num<D extends number | undefined>(
+  env: string,
+  def: D,
+  range: { min?: number; max?: number },
+  description: string
+): Setting<D | number> {
+  return { env, kind: "number", default: def, description, ...range };
+}
+
+function int<D extends number | undefined>(
+  env: string,
+  def: D,
+  range: { min?: number; max?: number },
+  description: string
+): Setting<D | number> {
+  return { env, kind: "integer", default: def, description, ...range };
+}
+
+function numList(
+  env: string,
+  range: { min?: number; max?: number },
+  description: string
+): Setting<number[] | undefined> {
+  return { env, kind: "numberList", default: undefined, description, ...range };
+}
+
+function text<D extends string | undefined>(env: string, def: D, description: string): Setting<D> {
+  return { env, kind: "text", default: def, description };
+}
+
+function oneOf<V extends string>(
+  env: string,
+  values: readonly V[],
+  def: V,
+  description: string
+): Setting<V> {
+  return { env, kind: "enum", default: def, description, values };
+}
+
+export const MINER_SETTINGS = {
+  feeStrategy: oneOf("FEE_STRATEGY", ["eip1559", "legacy"] as const, "eip1559", "Type-2 fees from eth_feeHistory, or legacy gasPrice x GAS_PRICE_MULTIPLIER"),
+  targetInclusionSec: num("TARGET_INCLUSION_SEC", 36, { min: 12, max: 600 }, "How soon a mining tx should be included; sets tip percentile and max fee headroom"),
+  feeHistoryBlocks: int("FEE_HISTORY_BLOCKS", 20, { min: 1, max: 1024 }, "Blocks of eth_feeHistory used for the priority fee"),
+  priorityFeePercentile: int("PRIORITY_FEE_PERCENTILE", undefined, { min: 1, max: 99 }, "Override the reward percentile picked from TARGET_INCLUSION_SEC"),
+  gasPriceMultiplier: num("GAS_PRICE_MULTIPLIER", 1.5, { min: 1, max: 10 }, "Multiplier applied to eth_gasPrice (FEE_STRATEGY=legacy)"),
+  replaceAfterSec: int("REPLACE_AFTER_SEC", 60, { min: 0 }, "Fee-bump a mining tx still not on L1 after this long (0 = never)"),
+  bumpMultiplier: num("BUMP_MULTIPLIER", 1.25, { min: 1.1, max: 10 }, "Fee multiplier per replacement (also used by cancel-range)"),
+  replaceMaxGwei: num("REPLACE_MAX_GWEI", undefined, { min: 0 }, "Max fee ceiling for replacements; past it the nonce is cancelled (default: 3x the first max fee)"),
+  autoMode: bool("AUTO_MODE", false, "Run without prompts using the settings below"),
+  autoLoop: bool("AUTO_LOOP", false, "Keep running after a session, re-checking every CHECK_INTERVAL_SEC"),
+  sizeKb: num("SIZE_KB", 100, { min: 1, max: 128 }, "Calldata size per transaction when AUTO_DYNAMIC_SIZE is off"),
+  spendMode: oneOf("SPEND_MODE", ["all", "cap"] as const, "cap", "'all' spends the wallet (minus 1%), 'cap' uses SPEND_CAP_ETH"),
+  spendCapEth: num("SPEND_CAP_ETH", undefined, { min: 0 }, "ETH to spend per session in cap mode"),
+  autoTargetTxs: int("AUTO_TARGET_TXS", undefined, { min: 1 }, "Derive the spend cap from this many transactions"),
+  maxL1Gwei: num("MAX_L1_GWEI", undefined, { min: 0 }, "Skip when L1 gas is above this"),
+  maxBaseFeePercentile: int("MAX_BASE_FEE_PERCENTILE", undefined, { min: 1, max: 100 }, "Skip unless the next base fee is at or below this percentile of the last BASE_FEE_WINDOW_HOURS"),
+  maxNextBaseFeeGwei: num("MAX_NEXT_BASE_FEE_GWEI", undefined, { min: 0 }, "Skip when the next block's base fee is above this"),
+  baseFeeWindowHours: num("BASE_FEE_WINDOW_HOURS", 24, { min: 1, max: 72 }, "Base-fee history behind the percentiles and trend in auto mode"),
+  maxCostPerFctUsd: num("MAX_COST_PER_FCT_USD", undefined, { min: 0 }, "Skip when estimated $/FCT is worse than this"),
+  minEfficiencyPercent: num("MIN_EFFICIENCY_PERCENT", undefined, { min: 0, max: 100 }, "Skip when calldata efficiency is below this"),
+  minBalanceEth: num("MIN_BALANCE_ETH", undefined, { min: 0 }, "Keep at least this much ETH unspent"),
+  checkIntervalSec: num("CHECK_INTERVAL_SEC", 60, { min: 1 }, "Polling / cooldown interval in auto mode"),
+  maxInFlight: int("MAX_IN_FLIGHT", 1, { min: 1, max: 16 }, "Mining txs awaiting confirmation at once; above 1 pipelines sends on locally assigned nonces"),
+  stopOnTxFail: bool("STOP_ON_TX_FAIL", true, "Stop the session on the first failed transaction"),
+  autoDynamicSize: bool("AUTO_DYNAMIC_SIZE", true, "Pick the cheapest size per FCT between AUTO_MIN_SIZE_KB and AUTO_MAX_SIZE_KB, to the byte"),
+  autoRelaxAfterCycles: int("AUTO_RELAX_AFTER_CYCLES", 5, { min: 1 }, "Start relaxing gates after this many waiting cycles"),
+  autoRelaxStepPercent: num("AUTO_RELAX_STEP_PERCENT", 10, { min: 0, max: 100 }, "Relax gates by this much per extra cycle"),
+  autoMinSizeKb: int("AUTO_MIN_SIZE_KB", 25, { min: 1, max: 128 }, "Smallest size tried by dynamic sizing"),
+  autoMaxSizeKb: int("AUTO_MAX_SIZE_KB", 128, { min: 1, max: 128 }, "Largest size tried by dynamic sizing (128 = the L1 transaction size limit)"),
+  mintRateGate: oneOf("MINT_RATE_GATE", ["off", "wait-for-rise", "mine-before-drop", "both"] as const, "off", "Auto mode: hold while the FCT mint rate is about to rise, and/or ignore MAX_COST_PER_FCT_USD before a drop"),
+  mintRateWindowBlocks: int("MINT_RATE_WINDOW_BLOCKS", 300, { min: 1 }, "A forecast change counts as imminent within this many L1 blocks of the period end"),
+  mintRateChangePercent: num("MINT_RATE_CHANGE_PERCENT", 10, { min: 0 }, "Smallest forecast mint-rate change MINT_RATE_GATE reacts to"),
+  mintPeriodBlocks: int("MINT_PERIOD_BLOCKS", 10000, { min: 1 }, "Facet mint-rate adjustment period in L1 blocks"),
+  miningWindows: text("MINING_WINDOWS", undefined, "Auto mode mines only inside these windows, e.g. \"weekends 01:00-06:00 cap=0.05 gwei=8\" (see README)"),
+  miningTimezone: text("MINING_TIMEZONE", "UTC", "IANA timezone the MINING_WINDOWS times are in"),
+  minePayload: text("MINE_PAYLOAD", DEFAULT_PAYLOAD, "Mine-boost bytes: pattern:<text>, hex:<0x..>, file:<path>, random or tag:<message> (compare with npm run payloads)"),
+  miningStrategy: text("MINING_STRATEGY", undefined, "Module that decides when and at what size auto mode mines (see README); default: the built-in gates"),
+  budgetDaily: text("BUDGET_DAILY", undefined, "Spend at most this per UTC day across restarts and wallets, e.g. 0.05 (ETH) or \"25 USD\""),
+  budgetWeekly: text("BUDGET_WEEKLY", undefined, "Spend at most this per week (from Monday, UTC)"),
+  budgetMonthly: text("BUDGET_MONTHLY", undefined, "Spend at most this per calendar month (UTC)"),
+  budgetLifetime: text("BUDGET_LIFETIME", undefined, "Spend at most this in total"),
+  walletRotation: oneOf("WALLET_ROTATION", ["round-robin", "balance"] as const, "round-robin", "How transactions are spread over multiple wallets"),
+  walletSpendCapsEth: numList("WALLET_SPEND_CAPS_ETH", { min: 0 }, "Per-wallet session spend caps, in wallet order (comma-separated)"),
+  walletMinBalancesEth: numList("WALLET_MIN_BALANCES_ETH", { min: 0 }, "Per-wallet MIN_BALANCE_ETH overrides, in wallet order (comma-separated)"),
+};
+
+// What the other scripts read (cancel-range.ts, rpc.ts, signer.ts, journal.ts,
+// budget.ts), validated alongside the miner settings; BUMP_MULTIPLIER above is
+// shared with cancel-range
+export const SCRIPT_SETTINGS: Setting<number | string | undefined>[] = [
+  int("CANCEL_FROM_NONCE", undefined, { min: 0 }, "cancel-range: first nonce to cancel"),
+  int("CANCEL_TO_NONCE", undefined, { min: 0 }, "cancel-range: last nonce to cancel"),
+  num("BASE_TIP_GWEI", undefined, { min: 0 }, "cancel-range: starting priority fee"),
+  num("BASE_MAX_GWEI", undefined, { min: 0 }, "cancel-range: starting max fee"),
+  int("DELAY_MS", undefined, { min: 0 }, "cancel-range: pause between cancels"),
+  int("TIMEOUT_MS", undefined, { min: 1000 }, "cancel-range: wait for each cancel before bumping"),
+  int("RPC_TIMEOUT_MS", undefined, { min: 100 }, "Per-request RPC timeout before failing over"),
+  int("RPC_PROBE_INTERVAL_SEC", undefined, { min: 1 }, "RPC health probe interval while mining"),
+  int("REMOTE_SIGNER_TIMEOUT_MS", undefined, { min: 100 }, "Remote signer request timeout"),
+  text("JOURNAL_PATH", undefined, "Mining journal file (default ./mining-journal.jsonl)"),
+  text("BUDGET_PATH", undefined, "Spend budget ledger (default ./mining-budget.jsonl)"),
+];
+
+type Settings = typeof MINER_SETTINGS;
+export type MinerConfig = { [K in keyof Settings]: Settings[K] extends Setting<infer T> ? T : never };
+export type SettingSource = "default" | ".env" | "environment";
+
+// Network and key settings (config.ts, account.ts) are read outside these
+// tables; they are not miner settings but are not typos either
+const OTHER_KNOWN_KEYS = new Set([
+  "PRIVATE_KEY", "NETWORK", "L1_RPC_URL", "FACET_RPC_URL", "FACET_CHAIN_ID",
+  "ROUTER", "WETH", "WFCT", "FCT_WETH_PAIR",
+  ...SCRIPT_SETTINGS.map((s) => s.env),
+]);
+
+const MINER_LOOKING_KEY = /^(FCT_|AUTO_|SPEND_|SIZE_|MAX_|MIN_|CHECK_|STOP_|GAS_|BASE_FEE_|MINE_|MINER_|MINING_|MINT_|BUDGET_)/;
+
+function parseSetting(setting: Setting<unknown>, raw: string): { value?: unknown; error?: string } {
+  const v = raw.trim();
+  switch (setting.kind) {
+    case "boolean": {
+      const lower = v.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: true };
+      if (FALSE_VALUES.includes(lower)) return { value: false };
+      return { error: `expected true/false (got "${raw}")` };
+    }
+    case "enum": {
+      const lower = v.toLowerCase();
+      if (setting.values!.includes(lower)) return { value: lower };
+      return { error: `expected ${setting.values!.join(" | ")} (got "${raw}")` };
+    }
+    case "text":
+      return { value: v };
+    case "numberList": {
+      const values: number[] = [];
+      for (const item of v.split(",")) {
+        const { value, error } = parseSetting({ ...setting, kind: "number" }, item);
+        if (error) return { error };
+        values.push(value as number);
+      }
+      return { value: values };
+    }
+    case "number":
+    case "integer": {
+      const n = Number(v);
+      if (!Number.isFinite(n)) return { error: `expected a number (got "${raw}")` };
+      if (setting.kind === "integer" && !Number.isInteger(n)) return { error: `expected an integer (got "${raw}")` };
+      if (setting.min != null && n < setting.min) return { error: `must be >= ${setting.min} (got ${n})` };
+      if (setting.max != null && n > setting.max) return { error: `must be <= ${setting.max} (got ${n})` };
+      return { value: n };
+    }
+  }
+}
+
+function readDotEnvFile(): Record<string, string> {
+  const envPath = path.join(process.cwd(), ".env");
+  if (!fs.existsSync(envPath)) return {};
+  return dotenv.parse(fs.readFileSync(envPath));
+}
+
+function editDistance(a: string, b: string): number {
+  const dp = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) dp[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      dp[i][j] = Math.min(
+        dp[i - 1][j] + 1,
+        dp[i][j - 1] + 1,
+        dp[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+  }
+  return dp[a.length][b.length];
+}
+
+export interface MinerConfigResult {
+  config: MinerConfig;
+  sources: Record<keyof MinerConfig, SettingSource>;
+  errors: string[];
+  warnings: string[];
+}
+
+/** Parse and validate every miner setting without throwing. */
+export function validateMinerConfig(env: NodeJS.ProcessEnv = process.env): MinerConfigResult {
+  const fileValues = readDotEnvFile();
+  const config: Record<string, unknown> = {};
+  const sources: Record<string, SettingSource> = {};
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const [key, setting] of Object.entries(MINER_SETTINGS) as [keyof MinerConfig, Setting<unknown>][]) {
+    const raw = env[setting.env];
+    if (raw == null || raw.trim() === "") {
+      config[key] = setting.default;
+      sources[key] = "default";
+      continue;
+    }
+    const { value, error } = parseSetting(setting, raw);
+    if (error) {
+      errors.push(`${setting.env}: ${error}`);
+      config[key] = setting.default;
+    } else {
+      config[key] = value;
+    }
+    sources[key] = fileValues[setting.env] === raw ? ".env" : "environment";
+  }
+
+  for (const setting of SCRIPT_SETTINGS) {
+    const raw = env[setting.env];
+    if (raw == null || raw.trim() === "") continue;
+    const { error } = parseSetting(setting, raw);
+    if (error) errors.push(`${setting.env}: ${error}`);
+  }
+
+  const c = config as MinerConfig;
+  if (c.autoMinSizeKb > c.autoMaxSizeKb) {
+    errors.push(`AUTO_MIN_SIZE_KB (${c.autoMinSizeKb}) must not exceed AUTO_MAX_SIZE_KB (${c.autoMaxSizeKb})`);
+  }
+  if (c.autoMode && c.spendMode === "cap" && !c.spendCapEth && !c.autoTargetTxs) {
+    errors.push("SPEND_MODE=cap requires SPEND_CAP_ETH or AUTO_TARGET_TXS in auto mode");
+  }
+
+  if (c.miningWindows) {
+    try {
+      parseSchedule(c.miningWindows, c.miningTimezone);
+    } catch (error: any) {
+      errors.push(`MINING_WINDOWS: ${error.message}`);
+    }
+  }
+
+  try {
+    parsePayload(c.minePayload);
+  } catch (error: any) {
+    errors.push(`MINE_PAYLOAD: ${error.message}`);
+  }
+
+  if (c.miningStrategy && !fs.existsSync(path.resolve(c.miningStrategy))) {
+    errors.push(`MINING_STRATEGY: ${c.miningStrategy} not found`);
+  }
+
+  for (const setting of [MINER_SETTINGS.budgetDaily, MINER_SETTINGS.budgetWeekly, MINER_SETTINGS.budgetMonthly, MINER_SETTINGS.budgetLifetime]) {
+    const raw = env[setting.env];
+    if (raw == null || raw.trim() === "") continue;
+    try {
+      parseBudgetAmount(raw);
+    } catch (error: any) {
+      errors.push(`${setting.env}: ${error.message}`);
+    }
+  }
+
+  const known = new Set([...Object.values(MINER_SETTINGS).map((s) => s.env), ...OTHER_KNOWN_KEYS]);
+  for (const key of Object.keys(env)) {
+    if (known.has(key) || !MINER_LOOKING_KEY.test(key)) continue;
+    const suggestion = [...known]
+      .map((k) => ({ k, d: editDistance(key, k) }))
+      .sort((a, b) => a.d - b.d)[0];
+    warnings.push(
+      `Unknown setting ${key}` +
+        (suggestion && suggestion.d <= 3 ? ` (did you mean ${suggestion.k}?)` : "")
+    );
+  }
+
+  return { config: c, sources: sources as MinerConfigResult["sources"], errors, warnings };
+}
+
+/** Parse and validate every miner setting; throws listing all invalid values. */
+export function loadMinerConfig(env: NodeJS.ProcessEnv = process.env): MinerConfigResult {
+  const result = validateMinerConfig(env);
+  if (result.errors.length > 0) {
+    throw new Error(`Invalid miner configuration:\n  - ${result.errors.join("\n  - ")}`);
+  }
+  return result;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "(unset)";
+  return Array.isArray(value) ? value.join(",") : String(value);
+}
+
+export function printMinerConfig({ config, sources }: MinerConfigResult) {
+  const rows = (Object.keys(MINER_SETTINGS) as (keyof MinerConfig)[]).map((key) => ({
+    env: MINER_SETTINGS[key].env,
+    value: formatValue(config[key]),
+    source: sources[key],
+    description: MINER_SETTINGS[key].description,
+  }));
+  const envWidth = Math.max(...rows.map((r) => r.env.length));
+  const valueWidth = Math.max(...rows.map((r) => r.value.length));
+
+  console.log("Effective miner configuration:");
+  for (const r of rows) {
+    console.log(
+      `  ${r.env.padEnd(envWidth)}  ${r.value.padEnd(valueWidth)}  ${`[${r.source}]`.padEnd(13)}  ${r.description}`
+    );
+  }
+}
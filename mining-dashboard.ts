@@ -2,10 +2,24 @@ import chalk from "chalk";
 import { createSpinner } from "nanospinner";
 import { formatEther } from "viem";
 import { getNetworkConfig } from "./config.js";
+import { getRpcPools, formatEndpoint } from "./rpc.js";
+import type { MiningEngine, SessionState } from "./mining-engine.js";
+import type { L1Fees } from "./wallets.js";
+import { formatMintRate, type MintRateTracker } from "./mint-rate.js";
+import { formatBudgetStatus, type SpendBudget } from "./budget.js";
+
+export interface WalletStats {
+  address: string;
+  ethSpent: bigint;
+  fctMinted: bigint;
+  transactions: number;
+}
 
 interface MiningStats {
   totalTransactions: number;
-  totalETHSpent: bigint;
+  totalETHSpent: bigint; // from L1 receipts
+  baseFeeBurned: bigint;
+  priorityFees: bigint;
   totalFCTMinted: bigint;
   remainingBudget: bigint;
   sessionTarget: bigint;
@@ -14,6 +28,11 @@ interface MiningStats {
   avgCostPerFCT: number;
   estimatedTimeLeft: string;
   miningRate: number; // FCT per hour
+  wallets: WalletStats[]; // per-wallet breakdown when mining with several accounts
+  inFlight: number; // submitted, not yet confirmed or failed
+  maxInFlight: number;
+  simulated: boolean; // dry run: nothing is broadcast
+  state: SessionState;
 }
 
 interface TransactionProgress {
@@ -23,6 +42,10 @@ interface TransactionProgress {
   ethCost: bigint;
   fctMinted: bigint;
   hash?: string;
+  wallet?: string;
+  nonce?: number;
+  replacements?: number; // fee bumps / cancels sent for this nonce
+  cancelling?: boolean;
 }
 
 export class MiningDashboard {
@@ -30,11 +53,16 @@ export class MiningDashboard {
   private currentTx: TransactionProgress | null = null;
   private startTime: number = Date.now();
   private intervalId: NodeJS.Timeout | null = null;
+  private detachers: (() => void)[] = [];
+  private mintRate: MintRateTracker | null = null;
+  private budget: SpendBudget | null = null;
 
   constructor(initialStats: Partial<MiningStats>) {
     this.stats = {
       totalTransactions: 0,
       totalETHSpent: 0n,
+      baseFeeBurned: 0n,
+      priorityFees: 0n,
       totalFCTMinted: 0n,
       remainingBudget: 0n,
       sessionTarget: 0n,
@@ -43,6 +71,11 @@ export class MiningDashboard {
       avgCostPerFCT: 0,
       estimatedTimeLeft: "calculating...",
       miningRate: 0,
+      wallets: [],
+      inFlight: 0,
+      maxInFlight: 1,
+      simulated: false,
+      state: "running",
       ...initialStats,
     };
   }
@@ -57,6 +90,74 @@ export class MiningDashboard {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
+    this.detachers.forEach((detach) => detach());
+    this.detachers = [];
+  }
+
+  /** Follow an engine's transactions until stop(). */
+  attach(engine: MiningEngine) {
+    this.mintRate = engine.mintRate;
+    this.stats.state = engine.state;
+    this.detachers.push(
+      engine.on("state", (state) => {
+        this.stats.state = state;
+        this.render();
+      }),
+      engine.on("estimate", ({ estimate, wallet }) => {
+        if (!wallet) return; // size quotes, not a transaction
+        this.startTransaction({
+          status: "submitting",
+          ethCost: estimate.estimatedEthBurn,
+          fctMinted: 0n,
+          wallet: wallet.account.address,
+        });
+      }),
+      engine.on("submitted", (tx) => {
+        this.stats.inFlight++;
+        this.updateTransaction({ status: "confirming", hash: tx.facetHash, nonce: tx.nonce });
+      }),
+      engine.on("replaced", ({ submitted, attempt }) => {
+        if (!this.isCurrent(submitted.wallet.account.address, submitted.nonce)) return;
+        this.updateTransaction({
+          hash: attempt.facetHash ?? this.currentTx?.hash,
+          replacements: submitted.attempts.length - 1,
+          cancelling: attempt.kind === "cancel",
+        });
+      }),
+      engine.on("confirmed", (result) => {
+        this.stats.inFlight--;
+        if (this.isCurrent(result.wallet.account.address, result.nonce)) {
+          this.updateTransaction({ status: "completed", fctMinted: result.fctMinted });
+        }
+        this.completeTransaction(result.ethSpent, result.fctMinted, result.wallet.account.address, result.cost);
+      }),
+      engine.on("failed", (failure) => {
+        if (failure.stage === "confirm") this.stats.inFlight--;
+        if (failure.cost) this.addSpend(failure.cost.total, failure.wallet?.account.address, failure.cost);
+        // A submit failure is always the newest transaction; estimate failures have none
+        const current =
+          failure.stage === "submit" ||
+          (failure.stage === "confirm" &&
+            failure.nonce != null &&
+            this.isCurrent(failure.wallet?.account.address, failure.nonce));
+        if (current) {
+          this.updateTransaction({ status: "failed" });
+        }
+      }),
+      engine.on("gapCancel", (cancel) => {
+        if (cancel.cost) this.addSpend(cancel.cost.total, cancel.wallet.account.address, cancel.cost);
+      })
+    );
+  }
+
+  /** Show what the persistent spend budgets have left. */
+  showBudget(budget: SpendBudget) {
+    this.budget = budget;
+  }
+
+  /** Whether an event is about the transaction shown (older ones may still be in flight). */
+  private isCurrent(wallet: string | undefined, nonce: number): boolean {
+    return this.currentTx?.wallet === wallet && this.currentTx?.nonce === nonce;
   }
 
   updateStats(newStats: Partial<MiningStats>) {
@@ -80,14 +181,28 @@ export class MiningDashboard {
     }
   }
 
-  completeTransaction(ethSpent: bigint, fctMinted: bigint) {
+  completeTransaction(ethSpent: bigint, fctMinted: bigint, wallet?: string, fees?: L1Fees) {
+    const walletStats = this.stats.wallets.find((w) => w.address === wallet);
+    if (walletStats) {
+      walletStats.fctMinted += fctMinted;
+      walletStats.transactions++;
+    }
     this.stats.totalTransactions++;
-    this.stats.totalETHSpent += ethSpent;
     this.stats.totalFCTMinted += fctMinted;
+    this.addSpend(ethSpent, wallet, fees);
+    if (this.currentTx?.status === "completed") this.currentTx = null;
+    this.calculateDerivedStats();
+  }
+
+  /** ETH paid on L1, by a mining transaction or a cancel. */
+  private addSpend(ethSpent: bigint, wallet?: string, fees?: L1Fees) {
+    const walletStats = this.stats.wallets.find((w) => w.address === wallet);
+    if (walletStats) walletStats.ethSpent += ethSpent;
+    this.stats.totalETHSpent += ethSpent;
+    this.stats.baseFeeBurned += fees?.baseFeeBurned ?? 0n;
+    this.stats.priorityFees += fees?.priorityFee ?? 0n;
     this.stats.remainingBudget -= ethSpent;
     this.stats.currentBalance -= ethSpent;
-    this.currentTx = null;
-    this.calculateDerivedStats();
   }
 
   private calculateDerivedStats() {
@@ -134,13 +249,17 @@ export class MiningDashboard {
     this.renderHeader();
     this.renderProgress();
     this.renderStats();
+    this.renderMintRate();
+    this.renderBudget();
+    this.renderWallets();
+    this.renderRpc();
     this.renderCurrentTransaction();
     this.renderFooter();
   }
 
   private renderHeader() {
     const borderWidth = 79;
-    const text = "FCT MINER v1.0";
+    const text = this.stats.simulated ? "FCT MINER v1.0 - DRY RUN (SIMULATED)" : "FCT MINER v1.0";
     const padding = Math.floor((borderWidth - text.length) / 2);
     const remainder = borderWidth - text.length - padding;
     const centeredText = " ".repeat(padding) + text + " ".repeat(remainder);
@@ -184,6 +303,11 @@ export class MiningDashboard {
     console.log(
       `  Transactions: ${chalk.green.bold(this.stats.totalTransactions)}`
     );
+    if (this.stats.maxInFlight > 1) {
+      console.log(
+        `  In Flight: ${chalk.magenta.bold(this.stats.inFlight)}/${this.stats.maxInFlight}`
+      );
+    }
     console.log(
       `  Balance: ${chalk.yellow.bold(
         formatEther(this.stats.currentBalance).slice(0, 8)
@@ -194,6 +318,15 @@ export class MiningDashboard {
         formatEther(this.stats.totalETHSpent).slice(0, 8)
       )} ETH`
     );
+    if (this.stats.totalETHSpent > 0n) {
+      console.log(
+        chalk.gray(
+          `    burned ${formatEther(this.stats.baseFeeBurned).slice(0, 10)} + tips ${formatEther(
+            this.stats.priorityFees
+          ).slice(0, 10)} ETH`
+        )
+      );
+    }
     console.log(
       `  ETH Price: ${chalk.green.bold("$" + this.stats.ethPrice.toFixed(0))}`
     );
@@ -213,6 +346,76 @@ export class MiningDashboard {
     console.log(`  ETA: ${chalk.blue.bold(this.stats.estimatedTimeLeft)}`);
   }
 
+  private renderMintRate() {
+    const outlook = this.mintRate?.outlook();
+    if (!outlook) return;
+
+    const change = outlook.changePercent;
+    const changeColor = change > 0 ? chalk.green : change < 0 ? chalk.red : chalk.gray;
+    const changeText = change === 0 ? "flat" : `${change > 0 ? "+" : ""}${change.toFixed(1)}%`;
+
+    console.log(`\n${chalk.cyan("Mint Rate:")}`);
+    console.log(
+      `  Current: ${chalk.white.bold(formatMintRate(outlook.rate))} FCT/ETH` +
+        (outlook.realisedRate != null
+          ? chalk.gray(
+              ` (last mint ${formatMintRate(outlook.realisedRate)}` +
+                (outlook.realisedDriftPercent != null
+                  ? `, ${outlook.realisedDriftPercent >= 0 ? "+" : ""}${outlook.realisedDriftPercent.toFixed(1)}% vs quote`
+                  : "") +
+                ")"
+            )
+          : "")
+    );
+    console.log(
+      `  Forecast: ${chalk.white.bold(formatMintRate(outlook.forecastRate))} FCT/ETH ${changeColor(
+        `(${changeText})`
+      )} next period`
+    );
+    console.log(
+      `  Period: ${chalk.yellow(Math.round(outlook.progress * 100) + "%")} ${chalk.gray(
+        `(<=${outlook.blocksLeft.toLocaleString()} blocks left${outlook.startObserved ? "" : ", start assumed"})`
+      )}`
+    );
+  }
+
+  private renderBudget() {
+    if (!this.budget) return;
+
+    console.log(`\n${chalk.cyan("Budgets:")}`);
+    for (const status of this.budget.status()) {
+      const color = status.remaining <= 0 ? chalk.red : status.remaining < status.limit.amount * 0.1 ? chalk.yellow : chalk.green;
+      console.log(`  ${color(formatBudgetStatus(status))}`);
+    }
+  }
+
+  private renderWallets() {
+    if (this.stats.wallets.length < 2) return;
+
+    console.log(`\n${chalk.cyan("Wallets:")}`);
+    for (const w of this.stats.wallets) {
+      const short = w.address.slice(0, 6) + "..." + w.address.slice(-4);
+      console.log(
+        `  ${chalk.white(short)}  ${chalk.red(
+          formatEther(w.ethSpent).slice(0, 8)
+        )} ETH  ${chalk.magenta(
+          formatEther(w.fctMinted).slice(0, 8)
+        )} FCT  ${chalk.gray(w.transactions + " tx")}`
+      );
+    }
+  }
+
+  private renderRpc() {
+    const { l1, facet } = getRpcPools();
+    console.log(`\n${chalk.cyan("RPC:")}`);
+    for (const pool of [l1, facet]) {
+      const health = pool.current();
+      const color =
+        health.errorRate > 0.2 ? chalk.red : health.errorRate > 0 ? chalk.yellow : chalk.green;
+      console.log(`  ${pool.label}: ${color(formatEndpoint(health))}`);
+    }
+  }
+
   private renderCurrentTransaction() {
     if (!this.currentTx) {
       console.log(`\n${chalk.gray("Waiting for next transaction...")}`);
@@ -242,7 +445,20 @@ export class MiningDashboard {
       )}`
     );
 
-    if (this.currentTx.hash) {
+    if (this.currentTx.wallet && this.stats.wallets.length > 1) {
+      const short =
+        this.currentTx.wallet.slice(0, 6) + "..." + this.currentTx.wallet.slice(-4);
+      console.log(`  Wallet: ${chalk.white(short)}`);
+    }
+
+    if (this.currentTx.replacements) {
+      const note = this.currentTx.cancelling ? "cancelling nonce (fee ceiling reached)" : "fee bumped";
+      console.log(`  Replacements: ${chalk.yellow(this.currentTx.replacements)} ${chalk.gray(`(${note})`)}`);
+    }
+
+    if (this.currentTx.hash && this.stats.simulated) {
+      console.log(`  Hash: ${chalk.magenta("simulated, not broadcast")}`);
+    } else if (this.currentTx.hash) {
       const networkConfig = getNetworkConfig();
       const explorerUrl = `${networkConfig.facetChain.blockExplorers.default.url}/tx/${this.currentTx.hash}`;
       const shortHash =
@@ -279,11 +495,14 @@ export class MiningDashboard {
       .toString()
       .padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
 
-    console.log(
-      `\n${chalk.gray("Uptime:")} ${chalk.cyan(uptime)} | ${chalk.gray(
-        "Press Ctrl+C to stop"
-      )}`
-    );
+    const controls =
+      this.stats.state === "stopping"
+        ? chalk.yellow(`STOPPING: waiting for ${this.stats.inFlight} in flight | Ctrl+C again to exit now`)
+        : this.stats.state === "paused"
+          ? chalk.yellow("PAUSED | p to resume | Ctrl+C to stop")
+          : chalk.gray("p to pause | Ctrl+C to stop");
+
+    console.log(`\n${chalk.gray("Uptime:")} ${chalk.cyan(uptime)} | ${controls}`);
   }
 
   // Animation helpers
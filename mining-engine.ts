@@ -0,0 +1,1149 @@
+import { EventEmitter } from "events";
+import { formatEther, formatGwei, keccak256, toHex, type Address, type PublicClient } from "viem";
+import {
+  calculateInputGasCost,
+  getFctMintRate,
+  sendRawFacetTransaction,
+} from "@0xfacet/sdk/utils";
+import type { MiningWallet, WalletPool } from "./wallets";
+import { NonceManager } from "./nonce-manager";
+import { DEFAULT_PERIOD_BLOCKS, MintRateTracker, type MintRateGate } from "./mint-rate";
+import { bumpQuote, feeFields, type FeeQuote, type FeeStrategy } from "./fee-strategy";
+import { GasOutlookTracker } from "./gas-outlook";
+import type { SpendBudget } from "./budget";
+import { parsePayload, type PayloadGenerator } from "./payload";
+
+// Estimation, sending, confirmation and accounting for Facet mine-boost
+// transactions, with no console or dashboard output of its own. Callers
+// (CLI, auto mode, dashboard, embedding services) subscribe to the events.
+
+export const OVERHEAD_BYTES = 160;
+export const BASE_EXECUTION_GAS = 21000n;
+export const MAX_TX_SIZE_BYTES = 128 * 1024; // largest signed transaction nodes accept into their pool
+export const MAX_SIZE_KB = MAX_TX_SIZE_BYTES / 1024;
+const DEFAULT_CURVE_POINTS = 9;
+const MAX_CONSECUTIVE_FAILURES = 3;
+const MAX_CANCEL_ATTEMPTS = 8;
+const L1_POLL_MS = 4_000;
+const DRY_RUN_INCLUSION_MS = 2_000;
+const PAUSE_POLL_MS = 250;
+
+/**
+ * Stuck-transaction handling: after `afterMs` without L1 inclusion the same
+ * payload is re-sent on the same nonce with fees raised by `bumpMultiplier`.
+ * Once a bump would pass `maxFeePerGas` the nonce is cancelled instead.
+ */
+export interface ReplacementPolicy {
+  afterMs: number; // 0 = never replace, just wait for Facet
+  bumpMultiplier: number;
+  maxFeePerGas?: bigint; // default: 3x the first attempt's max fee
+}
+
+export interface MiningEngineOptions {
+  l1Client: PublicClient;
+  facetClient: PublicClient;
+  wallets: WalletPool;
+  l1ChainId: number;
+  feeStrategy: FeeStrategy;
+  confirmationTimeoutMs?: number;
+  replacement?: ReplacementPolicy;
+  mintPeriodBlocks?: number;
+  gasWindowHours?: number; // base-fee history kept by gasOutlook
+  payload?: PayloadGenerator; // mine-boost bytes (default: the FACETMINE pattern)
+  dryRun?: boolean; // read chain state, never broadcast; sends are simulated
+}
+
+/** Chain state every estimate in one decision is computed from. */
+export interface MarketSnapshot {
+  blockNumber: bigint;
+  baseFee: bigint; // expected base fee of the inclusion block
+  fees: FeeQuote;
+  fctMintRate: bigint;
+}
+
+export interface MiningEstimate {
+  sizeBytes: number;
+  kb: number;
+  inputGas: bigint; // calldata gas + 21k base
+  baseFee: bigint;
+  effectiveGasPrice: bigint; // expected price per gas under the fee strategy
+  estimatedEthBurn: bigint;
+  maxEthCost: bigint; // worst case at maxFeePerGas
+  inputCostWei: bigint; // the part that mints FCT
+  fctMintRate: bigint;
+  fctMintAmount: bigint;
+  ethPerFct: bigint;
+  costPerFctUsd: number;
+  efficiencyPercent: number;
+  ethPriceUsd: number;
+  snapshot: MarketSnapshot;
+  payload: Uint8Array; // the mine-boost bytes quoted, sent as-is by every attempt
+}
+
+export type AttemptKind = "original" | "replacement" | "cancel";
+
+/** One transaction sent (or rejected by the node) for a mining nonce. */
+export interface TxAttempt {
+  kind: AttemptKind;
+  fees: FeeQuote;
+  sentAt: number; // ms since epoch
+  l1Hash?: `0x${string}`; // unset when the node rejected it
+  facetHash?: `0x${string}`; // mining attempts only
+  error?: string;
+}
+
+export interface SubmittedTransaction {
+  wallet: MiningWallet;
+  estimate: MiningEstimate;
+  l1Hash: `0x${string}`;
+  facetHash: `0x${string}`;
+  nonce: number;
+  fees: FeeQuote; // of the attempt that landed, once confirmed
+  attempts: TxAttempt[]; // every send for this nonce, in order
+  simulated: boolean; // dry run: hashes are placeholders, nothing was broadcast
+}
+
+/** What a mined L1 transaction actually paid, from its receipt. */
+export interface L1Cost {
+  l1Block: bigint;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  baseFeePerGas: bigint;
+  total: bigint; // gasUsed * effectiveGasPrice
+  baseFeeBurned: bigint; // gasUsed * block base fee
+  priorityFee: bigint; // the rest, paid to the block builder
+}
+
+export interface MiningResult extends SubmittedTransaction {
+  ethSpent: bigint; // cost.total
+  cost: L1Cost;
+  fctMinted: bigint;
+  costPerFct: bigint; // ETH-wei per FCT
+  facetBlock: bigint;
+  mintReported: boolean; // false when the Facet tx had no mint field
+}
+
+export type FailureStage = "estimate" | "submit" | "confirm";
+
+export interface MiningFailure {
+  stage: FailureStage;
+  error: unknown;
+  wallet?: MiningWallet;
+  estimate?: MiningEstimate;
+  nonce?: number;
+  l1Hash?: `0x${string}`;
+  facetHash?: `0x${string}`;
+  attempts?: TxAttempt[];
+  cost?: L1Cost; // set when one of the nonce's attempts was mined: a cancel, or one Facet never confirmed
+  dropped?: boolean; // no attempt was mined or known to the node, so the nonce was released
+}
+
+/**
+ * A 0-value self-transfer sent to fill a nonce gap that in-flight transactions
+ * are stuck behind. Emitted when sent, and again with `cost` once mined.
+ */
+export interface GapCancel {
+  wallet: MiningWallet;
+  nonce: number;
+  attempt: TxAttempt;
+  ethPriceUsd: number; // the session's, for USD budgets
+  cost?: L1Cost;
+}
+
+/** A mining nonce a previous run submitted but never saw settle (e.g. it was killed). */
+export interface UnsettledNonce {
+  address: Address;
+  nonce: number;
+  attempts: Pick<TxAttempt, "kind" | "l1Hash" | "facetHash">[];
+}
+
+export type ReconcileStatus = "confirmed" | "dropped" | "pending";
+
+export interface Reconciliation {
+  status: ReconcileStatus;
+  reason: string;
+  l1Hash?: `0x${string}`; // the attempt that was mined
+  facetHash?: `0x${string}`;
+  cost?: L1Cost; // confirmed only
+  cancelled: boolean; // the mined attempt was a cancel: spend, no mint
+  fctMinted: bigint;
+  mintReported: boolean;
+  facetBlock?: bigint;
+}
+
+export type GateRule = "balance" | "gas" | "basePercentile" | "nextBaseFee" | "efficiency" | "mintRate" | "cost";
+
+export interface Gate {
+  rule: GateRule;
+  actual: number;
+  limit: number;
+  message: string;
+}
+
+/** Base-fee rules checked against gasOutlook's last refresh(); skipped before the first. */
+export interface GasOutlookGate {
+  maxBaseFeePercentile?: number; // next base fee at or below this percentile of the window
+  maxNextBaseFeeGwei?: number;
+}
+
+export interface GateLimits {
+  maxL1Gwei?: number;
+  gasOutlook?: GasOutlookGate;
+  minEfficiencyPercent?: number;
+  maxCostPerFctUsd?: number;
+  mintRate?: MintRateGate;
+}
+
+/** Sizes in bytes per transaction, OVERHEAD_BYTES included; defaults to every size up to MAX_TX_SIZE_BYTES. */
+export type SizeSearch = {
+  minBytes?: number;
+  maxBytes?: number;
+  curvePoints?: number; // sizes sampled for SizeOptimum.curve
+} & Omit<GateLimits, "maxL1Gwei">;
+
+/** Cost and mint at one size, as quote() would compute them. */
+export interface SizePoint {
+  sizeBytes: number;
+  inputGas: bigint;
+  estimatedEthBurn: bigint;
+  fctMintAmount: bigint;
+  costPerFctUsd: number;
+  efficiencyPercent: number;
+  meets: boolean; // within the search's cost/efficiency limits
+}
+
+export interface SizeOptimum {
+  best: MiningEstimate;
+  curve: SizePoint[]; // evenly spaced sizes across the range plus the best, ascending
+  searched: number; // sizes compared
+}
+
+export interface SessionOptions {
+  spendCap: bigint;
+  sizeBytes: number;
+  ethPriceUsd: number;
+  stopOnFail: boolean;
+  maxInFlight?: number; // mining transactions awaiting confirmation at once (default 1)
+  budget?: SpendBudget; // persistent budgets, checked before every send
+  maxGasPrice?: bigint; // end the session once the expected gas price is above this
+}
+
+export interface SessionSummary {
+  transactions: number;
+  ethSpent: bigint; // from L1 receipts, including cancels
+  baseFeeBurned: bigint;
+  priorityFees: bigint;
+  fctMinted: bigint;
+  ethPriceUsd: number;
+  wallets: MiningWallet[];
+  simulated: boolean;
+  stopped: boolean; // stop() ended it before the spend cap did
+}
+
+/** running: submitting; paused: not submitting, in-flight ones still settle; stopping: draining. */
+export type SessionState = "running" | "paused" | "stopping";
+
+export interface MiningEngineEvents {
+  estimate: [{ estimate: MiningEstimate; wallet?: MiningWallet }];
+  submitted: [SubmittedTransaction];
+  replaced: [{ submitted: SubmittedTransaction; attempt: TxAttempt }];
+  confirmed: [MiningResult];
+  failed: [MiningFailure];
+  gapCancel: [GapCancel];
+  gated: [Gate];
+  state: [SessionState];
+}
+
+type EngineListener = (...args: MiningEngineEvents[keyof MiningEngineEvents]) => void;
+
+/** The FCT a Facet transaction minted, from the `mint` field Facet nodes add; undefined when not reported. */
+function reportedMint(facetTx: object | null): bigint | undefined {
+  if (!facetTx || !("mint" in facetTx) || !facetTx.mint) return undefined;
+  const { mint } = facetTx;
+  return typeof mint === "string" || typeof mint === "number" || typeof mint === "bigint" ? BigInt(mint) : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+let byteGas: { zero: number; nonZero: number } | undefined;
+
+/** Gas calculateInputGasCost() charges per zero and non-zero byte, measured once. */
+function sdkByteGas(): { zero: number; nonZero: number } {
+  if (!byteGas) {
+    const empty = calculateInputGasCost(new Uint8Array(0));
+    byteGas = {
+      zero: Number(calculateInputGasCost(Uint8Array.of(0)) - empty),
+      nonZero: Number(calculateInputGasCost(Uint8Array.of(1)) - empty),
+    };
+  }
+  return byteGas;
+}
+
+/** Placeholder hashes for a dry-run transaction; they exist on no chain. */
+function simulatedHashes(address: string, nonce: number): Pick<TxAttempt, "l1Hash" | "facetHash"> {
+  const seed = `dry-run:${address}:${nonce}:${Date.now()}`;
+  return { l1Hash: keccak256(toHex(`${seed}:l1`)), facetHash: keccak256(toHex(`${seed}:facet`)) };
+}
+
+export class MiningEngine {
+  private readonly emitter = new EventEmitter();
+  private readonly opts: Required<MiningEngineOptions>;
+  private readonly nonces: NonceManager;
+  readonly mintRate: MintRateTracker;
+  readonly gasOutlook: GasOutlookTracker;
+  private stopRequested = false;
+  private paused = false;
+
+  constructor(opts: MiningEngineOptions) {
+    this.opts = {
+      confirmationTimeoutMs: 60_000,
+      replacement: { afterMs: 0, bumpMultiplier: 1.25 },
+      mintPeriodBlocks: DEFAULT_PERIOD_BLOCKS,
+      gasWindowHours: 24,
+      payload: parsePayload(),
+      dryRun: false,
+      ...opts,
+    };
+    this.nonces = new NonceManager(opts.l1Client);
+    this.mintRate = new MintRateTracker(this.opts.mintPeriodBlocks);
+    this.gasOutlook = new GasOutlookTracker(opts.l1Client, { windowHours: this.opts.gasWindowHours });
+  }
+
+  get wallets(): WalletPool {
+    return this.opts.wallets;
+  }
+
+  get dryRun(): boolean {
+    return this.opts.dryRun;
+  }
+
+  get state(): SessionState {
+    return this.stopRequested ? "stopping" : this.paused ? "paused" : "running";
+  }
+
+  /** Hold new submissions; transactions already sent keep being followed. */
+  pause() {
+    if (this.paused) return;
+    this.paused = true;
+    this.emit("state", this.state);
+  }
+
+  resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    this.emit("state", this.state);
+  }
+
+  /**
+   * Stop submitting: the current (or next) runSession waits for its
+   * in-flight transactions to settle and returns.
+   */
+  stop() {
+    if (this.stopRequested) return;
+    this.stopRequested = true;
+    this.emit("state", this.state);
+  }
+
+  /** Session totals so far, from the wallet pool (what runSession returns). */
+  sessionSummary(ethPriceUsd: number): SessionSummary {
+    const { wallets } = this.opts;
+    return {
+      transactions: wallets.wallets.reduce((sum, w) => sum + w.txCount, 0),
+      // Spend comes from the wallets, so mined cancels count as well
+      ethSpent: wallets.totalSpent,
+      baseFeeBurned: wallets.wallets.reduce((sum, w) => sum + w.baseFeeBurned, 0n),
+      priorityFees: wallets.wallets.reduce((sum, w) => sum + w.priorityFees, 0n),
+      fctMinted: wallets.wallets.reduce((sum, w) => sum + w.fctMinted, 0n),
+      ethPriceUsd,
+      wallets: wallets.wallets,
+      simulated: this.opts.dryRun,
+      stopped: this.stopRequested,
+    };
+  }
+
+  /** Subscribe to an event; returns the unsubscribe function. */
+  on<E extends keyof MiningEngineEvents>(event: E, listener: (...args: MiningEngineEvents[E]) => void): () => void {
+    this.emitter.on(event, listener as EngineListener);
+    return () => this.emitter.off(event, listener as EngineListener);
+  }
+
+  private emit<E extends keyof MiningEngineEvents>(event: E, ...args: MiningEngineEvents[E]) {
+    this.emitter.emit(event, ...args);
+  }
+
+  // -------- Estimation --------
+
+  async snapshot(): Promise<MarketSnapshot> {
+    const [fees, fctMintRate] = await Promise.all([
+      this.opts.feeStrategy.quote(this.opts.l1Client),
+      getFctMintRate(this.opts.l1ChainId),
+    ]);
+    this.mintRate.sample(fees.blockNumber, fctMintRate);
+    return {
+      blockNumber: fees.blockNumber,
+      baseFee: fees.nextBaseFee,
+      fees,
+      fctMintRate,
+    };
+  }
+
+  /** Cost and expected mint for one transaction of `sizeBytes`, from a snapshot. No events. */
+  quote(sizeBytes: number, ethPriceUsd: number, snapshot: MarketSnapshot): MiningEstimate {
+    const kb = Math.min(Math.max(Math.floor(sizeBytes / 1024), 1), MAX_SIZE_KB);
+    const mineBoostData = this.opts.payload.generate(sizeBytes - OVERHEAD_BYTES);
+    const { baseFee, fctMintRate, fees } = snapshot;
+
+    // Same fee model as the transaction send() builds from this snapshot
+    const inputGas = calculateInputGasCost(mineBoostData) + BASE_EXECUTION_GAS;
+    const estimatedEthBurn = inputGas * fees.effectiveGasPrice;
+    const inputCostWei = (inputGas - BASE_EXECUTION_GAS) * baseFee;
+    const fctMintAmount = inputCostWei * fctMintRate;
+    const ethPerFct = fctMintAmount > 0n ? (estimatedEthBurn * 10n ** 18n) / fctMintAmount : 0n;
+
+    return {
+      sizeBytes,
+      kb,
+      inputGas,
+      baseFee,
+      effectiveGasPrice: fees.effectiveGasPrice,
+      estimatedEthBurn,
+      maxEthCost: inputGas * fees.maxFeePerGas,
+      inputCostWei,
+      fctMintRate,
+      fctMintAmount,
+      ethPerFct,
+      costPerFctUsd: Number(formatEther(ethPerFct)) * ethPriceUsd,
+      efficiencyPercent: (Number(inputGas - BASE_EXECUTION_GAS) / Number(inputGas)) * 100,
+      ethPriceUsd,
+      snapshot,
+      payload: mineBoostData,
+    };
+  }
+
+  /** Quote against fresh chain state and emit `estimate`. */
+  async estimate(sizeBytes: number, ethPriceUsd: number, wallet?: MiningWallet): Promise<MiningEstimate> {
+    const estimate = this.quote(sizeBytes, ethPriceUsd, await this.snapshot());
+    this.emit("estimate", { estimate, wallet });
+    return estimate;
+  }
+
+  /**
+   * Cheapest size per FCT between minBytes and maxBytes that meets the
+   * cost/efficiency limits; when none does, the cheapest overall.
+   */
+  async pickBestSize(ethPriceUsd: number, opts: SizeSearch = {}): Promise<MiningEstimate | null> {
+    const best = this.bestSize(await this.snapshot(), ethPriceUsd, opts);
+    if (best) this.emit("estimate", { estimate: best });
+    return best;
+  }
+
+  /** pickBestSize() against a given snapshot. No events. */
+  bestSize(snapshot: MarketSnapshot, ethPriceUsd: number, opts: SizeSearch = {}): MiningEstimate | null {
+    return this.optimizeSize(snapshot, ethPriceUsd, opts)?.best ?? null;
+  }
+
+  /**
+   * Every size in the range, byte by byte, priced from one snapshot: the
+   * payload is generated once at the largest size and its calldata gas summed
+   * per prefix, so no size needs a quote of its own. Returns the best size
+   * (as bestSize() picks it) and a cost curve to show it against; null when
+   * the range holds no size above OVERHEAD_BYTES.
+   */
+  optimizeSize(snapshot: MarketSnapshot, ethPriceUsd: number, opts: SizeSearch = {}): SizeOptimum | null {
+    const minBytes = Math.max(Math.ceil(opts.minBytes ?? 0), OVERHEAD_BYTES + 1);
+    const maxBytes = Math.min(Math.floor(opts.maxBytes ?? MAX_TX_SIZE_BYTES), MAX_TX_SIZE_BYTES);
+    if (minBytes > maxBytes) return null;
+
+    const data = this.opts.payload.generate(maxBytes - OVERHEAD_BYTES);
+    const { zero, nonZero } = sdkByteGas();
+    const dataGas = new Float64Array(data.length + 1); // dataGas[n]: gas of the first n bytes
+    for (let i = 0; i < data.length; i++) dataGas[i + 1] = dataGas[i] + (data[i] === 0 ? zero : nonZero);
+
+    // quote()'s cost/FCT is (21k + data gas) * gas price / (data gas * base fee * mint rate)
+    const { baseFee, fctMintRate, fees } = snapshot;
+    const usdPerGasUnit =
+      baseFee > 0n && fctMintRate > 0n
+        ? (Number(fees.effectiveGasPrice) / (Number(baseFee) * Number(fctMintRate))) * ethPriceUsd
+        : 0;
+    const base = Number(BASE_EXECUTION_GAS);
+    const meets = (costPerFctUsd: number, efficiencyPercent: number) =>
+      (opts.maxCostPerFctUsd == null || costPerFctUsd <= opts.maxCostPerFctUsd) &&
+      (opts.minEfficiencyPercent == null || efficiencyPercent >= opts.minEfficiencyPercent);
+
+    let bestBytes = minBytes;
+    let bestCost = Infinity;
+    let bestMeets = false;
+    for (let sizeBytes = minBytes; sizeBytes <= maxBytes; sizeBytes++) {
+      const gas = dataGas[sizeBytes - OVERHEAD_BYTES];
+      const costPerFctUsd = gas > 0 ? ((base + gas) / gas) * usdPerGasUnit : 0;
+      const ok = meets(costPerFctUsd, (gas / (base + gas)) * 100);
+      if ((ok && !bestMeets) || (ok === bestMeets && costPerFctUsd < bestCost)) {
+        bestBytes = sizeBytes;
+        bestCost = costPerFctUsd;
+        bestMeets = ok;
+      }
+    }
+
+    const point = (sizeBytes: number): SizePoint => {
+      const est = this.pointEstimate(sizeBytes, BigInt(dataGas[sizeBytes - OVERHEAD_BYTES]), snapshot, ethPriceUsd);
+      return { ...est, meets: meets(est.costPerFctUsd, est.efficiencyPercent) };
+    };
+    const curvePoints = Math.max(2, opts.curvePoints ?? DEFAULT_CURVE_POINTS);
+    // Whole-KB steps keep the curve readable: min, every step, max
+    const step = Math.max(1, Math.ceil((maxBytes - minBytes) / (curvePoints - 1) / 1024)) * 1024;
+    const sizes = new Set([minBytes, maxBytes, bestBytes]);
+    for (let sizeBytes = Math.ceil(minBytes / step) * step; sizeBytes < maxBytes; sizeBytes += step) sizes.add(sizeBytes);
+
+    return {
+      best: this.quote(bestBytes, ethPriceUsd, snapshot),
+      curve: [...sizes].sort((a, b) => a - b).map(point),
+      searched: maxBytes - minBytes + 1,
+    };
+  }
+
+  /** quote()'s numbers for a size whose calldata gas is already known. */
+  private pointEstimate(
+    sizeBytes: number,
+    dataGas: bigint,
+    snapshot: MarketSnapshot,
+    ethPriceUsd: number
+  ): Omit<SizePoint, "meets"> {
+    const inputGas = dataGas + BASE_EXECUTION_GAS;
+    const estimatedEthBurn = inputGas * snapshot.fees.effectiveGasPrice;
+    const fctMintAmount = dataGas * snapshot.baseFee * snapshot.fctMintRate;
+    const ethPerFct = fctMintAmount > 0n ? (estimatedEthBurn * 10n ** 18n) / fctMintAmount : 0n;
+    return {
+      sizeBytes,
+      inputGas,
+      estimatedEthBurn,
+      fctMintAmount,
+      costPerFctUsd: Number(formatEther(ethPerFct)) * ethPriceUsd,
+      efficiencyPercent: (Number(dataGas) / Number(inputGas)) * 100,
+    };
+  }
+
+  // -------- Gates --------
+
+  private gated(gate: Gate): Gate {
+    this.emit("gated", gate);
+    return gate;
+  }
+
+  /** Gate when no wallet is above its minimum balance. Refreshes balances. */
+  async checkBalances(): Promise<Gate | null> {
+    await this.opts.wallets.refreshBalances(this.opts.l1Client);
+    return this.balanceGate();
+  }
+
+  /** checkBalances() on the balances as last refreshed. */
+  balanceGate(): Gate | null {
+    const { wallets } = this.opts;
+    const low = wallets.belowMinimum();
+    if (low.length < wallets.wallets.length) return null;
+
+    const best = wallets.wallets.reduce((a, b) => (a.balance > b.balance ? a : b));
+    return this.gated({
+      rule: "balance",
+      actual: Number(formatEther(best.balance)),
+      limit: Number(formatEther(best.minBalance)),
+      message: "Balance below MIN_BALANCE_ETH on every wallet",
+    });
+  }
+
+  /**
+   * First limit the estimate breaks, in gas → base-fee outlook → efficiency → mint rate → cost
+   * order. With a mint-rate gate, an imminent rise holds off mining and an
+   * imminent drop lifts the cost limit (the current rate is the best for a while).
+   */
+  evaluate(est: MiningEstimate, limits: GateLimits): Gate | null {
+    const gasGwei = Number(formatGwei(est.snapshot.fees.effectiveGasPrice));
+    if (limits.maxL1Gwei != null && gasGwei > limits.maxL1Gwei) {
+      return this.gated({ rule: "gas", actual: gasGwei, limit: limits.maxL1Gwei, message: "L1 gas above MAX_L1_GWEI" });
+    }
+    const outlook = this.gasOutlook.current;
+    const gasGate = limits.gasOutlook;
+    if (outlook && gasGate?.maxBaseFeePercentile != null) {
+      const ceiling = outlook.percentile(gasGate.maxBaseFeePercentile);
+      if (outlook.nextBaseFee > ceiling) {
+        return this.gated({
+          rule: "basePercentile",
+          actual: Number(formatGwei(outlook.nextBaseFee)),
+          limit: Number(formatGwei(ceiling)),
+          message: `Next base fee above p${gasGate.maxBaseFeePercentile} of recent blocks`,
+        });
+      }
+    }
+    if (outlook && gasGate?.maxNextBaseFeeGwei != null) {
+      const nextGwei = Number(formatGwei(outlook.nextBaseFee));
+      if (nextGwei > gasGate.maxNextBaseFeeGwei) {
+        return this.gated({
+          rule: "nextBaseFee",
+          actual: nextGwei,
+          limit: gasGate.maxNextBaseFeeGwei,
+          message: "Next base fee above MAX_NEXT_BASE_FEE_GWEI",
+        });
+      }
+    }
+    if (limits.minEfficiencyPercent != null && est.efficiencyPercent < limits.minEfficiencyPercent) {
+      return this.gated({
+        rule: "efficiency",
+        actual: est.efficiencyPercent,
+        limit: limits.minEfficiencyPercent,
+        message: "Efficiency below MIN_EFFICIENCY_PERCENT",
+      });
+    }
+    const mintGate = limits.mintRate;
+    const change = mintGate ? this.mintRate.imminentChange(mintGate, est.snapshot.blockNumber) : null;
+    if (change === "rise" && (mintGate!.mode === "wait-for-rise" || mintGate!.mode === "both")) {
+      return this.gated({
+        rule: "mintRate",
+        actual: this.mintRate.outlook(est.snapshot.blockNumber)!.changePercent,
+        limit: mintGate!.minChangePercent,
+        message: "FCT mint rate about to rise",
+      });
+    }
+    const beforeDrop = change === "drop" && (mintGate!.mode === "mine-before-drop" || mintGate!.mode === "both");
+    if (!beforeDrop && limits.maxCostPerFctUsd != null && est.costPerFctUsd > limits.maxCostPerFctUsd) {
+      return this.gated({
+        rule: "cost",
+        actual: est.costPerFctUsd,
+        limit: limits.maxCostPerFctUsd,
+        message: "Cost/FCT above MAX_COST_PER_FCT_USD",
+      });
+    }
+    return null;
+  }
+
+  // -------- Sending --------
+
+  /** Send one mining transaction from `wallet` and wait for Facet to include it. */
+  async mine(wallet: MiningWallet, sizeBytes: number, ethPriceUsd: number): Promise<MiningResult | null> {
+    let estimate: MiningEstimate;
+    try {
+      estimate = await this.estimate(sizeBytes, ethPriceUsd, wallet);
+    } catch (error) {
+      this.emit("failed", { stage: "estimate", error, wallet });
+      return null;
+    }
+    const submitted = await this.submit(wallet, estimate);
+    return submitted ? this.confirm(submitted) : null;
+  }
+
+  /** Broadcast the mining transaction on a locally assigned nonce. */
+  private async submit(wallet: MiningWallet, estimate: MiningEstimate): Promise<SubmittedTransaction | null> {
+    const { fees } = estimate.snapshot;
+    const address = wallet.account.address;
+
+    let nonce: number | undefined;
+    let submitted: SubmittedTransaction;
+    try {
+      nonce = await this.nonces.acquire(address);
+      const attempt: TxAttempt = { kind: "original", fees, sentAt: Date.now() };
+      Object.assign(
+        attempt,
+        this.opts.dryRun ? simulatedHashes(address, nonce) : await this.broadcast(wallet, estimate, nonce, attempt)
+      );
+      submitted = {
+        wallet,
+        estimate,
+        l1Hash: attempt.l1Hash!,
+        facetHash: attempt.facetHash!,
+        nonce,
+        fees,
+        attempts: [attempt],
+        simulated: this.opts.dryRun,
+      };
+    } catch (error: any) {
+      if (nonce != null) {
+        this.nonces.release(address, nonce);
+        const message = String(error?.shortMessage || error?.message || "").toLowerCase();
+        if (message.includes("nonce too low")) await this.nonces.resync(address).catch(() => {});
+      }
+      this.emit("failed", { stage: "submit", error, wallet, estimate });
+      return null;
+    }
+    this.emit("submitted", submitted);
+    return submitted;
+  }
+
+  /** Follow a submitted transaction through L1 (replacing it if stuck) to its Facet receipt. */
+  private async confirm(submitted: SubmittedTransaction): Promise<MiningResult | null> {
+    const { facetClient } = this.opts;
+    const { wallet, estimate } = submitted;
+    const address = wallet.account.address;
+    if (submitted.simulated) return this.simulateConfirm(submitted);
+
+    let cancelCost: L1Cost | undefined;
+    try {
+      if (this.opts.replacement.afterMs > 0) {
+        const landed = await this.watchL1(submitted);
+        if (landed.kind === "cancel") {
+          cancelCost = await this.l1Cost(landed.l1Hash!);
+          this.opts.wallets.charge(wallet, cancelCost);
+          throw new Error(`Nonce ${submitted.nonce} cancelled after fees reached the replacement ceiling`);
+        }
+        submitted.l1Hash = landed.l1Hash!;
+        submitted.facetHash = landed.facetHash!;
+        submitted.fees = landed.fees;
+      }
+
+      const receipt = await facetClient.waitForTransactionReceipt({
+        hash: submitted.facetHash,
+        timeout: this.opts.confirmationTimeoutMs,
+      });
+      const facetTx = await facetClient.getTransaction({ hash: submitted.facetHash });
+
+      const mint = reportedMint(facetTx);
+      const mintReported = mint != null;
+      const fctMinted = mint ?? 0n;
+
+      const cost = await this.l1Cost(submitted.l1Hash);
+      const ethSpent = cost.total;
+      const result: MiningResult = {
+        ...submitted,
+        ethSpent,
+        cost,
+        fctMinted,
+        costPerFct: fctMinted > 0n ? (ethSpent * 10n ** 18n) / fctMinted : 0n,
+        facetBlock: receipt.blockNumber,
+        mintReported,
+      };
+      if (mintReported) {
+        this.mintRate.recordMint(cost.l1Block, fctMinted, estimate.inputGas - BASE_EXECUTION_GAS, cost.baseFeePerGas);
+      }
+      this.nonces.settle(address, submitted.nonce);
+      this.opts.wallets.record(wallet, cost, fctMinted);
+      this.emit("confirmed", result);
+      return result;
+    } catch (error) {
+      // A dropped nonce must be used again or every later one stays stuck
+      const dropped = await this.isDropped(address, submitted.nonce, submitted.attempts).catch(() => false);
+      if (dropped) this.nonces.release(address, submitted.nonce);
+      else this.nonces.settle(address, submitted.nonce);
+
+      // Mined on L1 but not confirmed on Facet (receipt timeout, lookup error):
+      // the spend is real and counts against the wallet, caps and budgets
+      let cost = cancelCost;
+      let landed = submitted.attempts.filter((a) => a.l1Hash).pop();
+      if (!cost) {
+        const included = await this.findIncluded(submitted.attempts);
+        if (included) {
+          landed = included;
+          cost = await this.l1Cost(included.l1Hash!).catch(() => undefined);
+          if (cost) this.opts.wallets.charge(wallet, cost);
+        }
+      }
+
+      this.emit("failed", {
+        stage: "confirm",
+        error,
+        wallet,
+        estimate,
+        nonce: submitted.nonce,
+        l1Hash: landed?.l1Hash ?? submitted.l1Hash,
+        facetHash: landed?.facetHash ?? submitted.facetHash,
+        attempts: submitted.attempts,
+        cost,
+        dropped,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Dry run: the transaction lands in the next block at the fees it was
+   * priced with, and mints at the getFctMintRate rate of its snapshot.
+   */
+  private async simulateConfirm(submitted: SubmittedTransaction): Promise<MiningResult> {
+    await sleep(DRY_RUN_INCLUSION_MS);
+    const { wallet, estimate, fees } = submitted;
+
+    const total = estimate.inputGas * fees.effectiveGasPrice;
+    const baseFeeBurned = estimate.inputGas * fees.nextBaseFee;
+    const cost: L1Cost = {
+      l1Block: fees.blockNumber + 1n,
+      gasUsed: estimate.inputGas,
+      effectiveGasPrice: fees.effectiveGasPrice,
+      baseFeePerGas: fees.nextBaseFee,
+      total,
+      baseFeeBurned,
+      priorityFee: total > baseFeeBurned ? total - baseFeeBurned : 0n,
+    };
+    const fctMinted = estimate.fctMintAmount;
+    const result: MiningResult = {
+      ...submitted,
+      ethSpent: total,
+      cost,
+      fctMinted,
+      costPerFct: fctMinted > 0n ? (total * 10n ** 18n) / fctMinted : 0n,
+      facetBlock: 0n,
+      mintReported: true,
+    };
+    this.nonces.settle(wallet.account.address, submitted.nonce);
+    this.opts.wallets.record(wallet, cost, fctMinted);
+    this.emit("confirmed", result);
+    return result;
+  }
+
+  /** Split what a mined L1 transaction paid into base fee burned and priority tip. */
+  private async l1Cost(hash: `0x${string}`): Promise<L1Cost> {
+    const { l1Client } = this.opts;
+    // Facet can index a block before this RPC serves its L1 receipt
+    const receipt = await l1Client.waitForTransactionReceipt({ hash, timeout: this.opts.confirmationTimeoutMs });
+    const block = await l1Client.getBlock({ blockNumber: receipt.blockNumber });
+    const baseFeePerGas = block.baseFeePerGas ?? 0n;
+    const total = receipt.gasUsed * receipt.effectiveGasPrice;
+    const baseFeeBurned = receipt.gasUsed * baseFeePerGas;
+    return {
+      l1Block: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.effectiveGasPrice,
+      baseFeePerGas,
+      total,
+      baseFeeBurned,
+      priorityFee: total - baseFeeBurned,
+    };
+  }
+
+  private async sendCancel(wallet: MiningWallet, nonce: number, fees: FeeQuote): Promise<`0x${string}`> {
+    if (this.opts.dryRun) throw new Error("Dry run: refusing to broadcast a cancel");
+    const { account, client } = wallet;
+    return client.sendTransaction({
+      account,
+      to: account.address,
+      value: 0n,
+      nonce,
+      gas: BASE_EXECUTION_GAS,
+      ...feeFields(fees),
+    });
+  }
+
+  /** Send one attempt for `nonce`: the mining payload, or a 0-value self-transfer for a cancel. */
+  private async broadcast(
+    wallet: MiningWallet,
+    estimate: MiningEstimate,
+    nonce: number,
+    attempt: TxAttempt
+  ): Promise<Pick<TxAttempt, "l1Hash" | "facetHash">> {
+    if (this.opts.dryRun) throw new Error("Dry run: refusing to broadcast");
+    const { account, client } = wallet;
+
+    if (attempt.kind === "cancel") {
+      return { l1Hash: await this.sendCancel(wallet, nonce, attempt.fees) };
+    }
+
+    // The SDK rebuilds the same Facet payload from the same params, so a
+    // replacement differs from the original only in its L1 fees (and hashes)
+    const { l1TransactionHash, facetTransactionHash } = await sendRawFacetTransaction(
+      this.opts.l1ChainId,
+      account.address,
+      {
+        to: account.address,
+        value: 0n,
+        data: "0x",
+        mineBoost: toHex(estimate.payload),
+      },
+      (l1Transaction) => {
+        // Fee fields come from the strategy only, never mixed with the SDK's
+        const { gasPrice: _gp, maxFeePerGas: _mf, maxPriorityFeePerGas: _mp, ...tx } = l1Transaction;
+        return client.sendTransaction({
+          ...tx,
+          account,
+          nonce,
+          ...feeFields(attempt.fees),
+        });
+      }
+    );
+    return { l1Hash: l1TransactionHash, facetHash: facetTransactionHash };
+  }
+
+  /** The highest max fee a nonce is re-sent at before it is cancelled instead. */
+  private feeCeiling(fees: FeeQuote): bigint {
+    return this.opts.replacement.maxFeePerGas ?? fees.maxFeePerGas * 3n;
+  }
+
+  /**
+   * Wait until one of the nonce's attempts is on L1 and return it. Every
+   * `afterMs` without inclusion the payload is re-sent with bumped fees; an
+   * "underpriced" rejection bumps again right away, as cancel-range does.
+   * Past the fee ceiling the nonce is cancelled instead.
+   */
+  private async watchL1(tx: SubmittedTransaction): Promise<TxAttempt> {
+    const { l1Client, feeStrategy, replacement } = this.opts;
+    const ceiling = this.feeCeiling(tx.fees);
+
+    let fees = tx.fees;
+    let cancels = 0;
+    let nonceUsed = false;
+    let nextSendAt = Date.now() + replacement.afterMs;
+
+    for (;;) {
+      const landed = await this.findIncluded(tx.attempts);
+      if (landed) return landed;
+
+      const latest = await l1Client.getTransactionCount({ address: tx.wallet.account.address, blockTag: "latest" });
+      if (latest > tx.nonce) {
+        // Receipt lookups can lag the nonce by a moment; check once more
+        const late = await this.findIncluded(tx.attempts);
+        if (late) return late;
+        throw new Error(`Nonce ${tx.nonce} was used by a transaction the miner did not send`);
+      }
+
+      if (!nonceUsed && Date.now() >= nextSendAt && this.nonces.blockedBy(tx.wallet.account.address, tx.nonce)) {
+        // Bumping cannot get it mined ahead of a lower nonce that is still out
+        nextSendAt = Date.now() + replacement.afterMs;
+      }
+
+      if (Date.now() >= nextSendAt) {
+        if (nonceUsed) {
+          throw new Error(`Nonce ${tx.nonce} reported as used, but none of its transactions reached L1`);
+        }
+        if (cancels >= MAX_CANCEL_ATTEMPTS) {
+          throw new Error(`Nonce ${tx.nonce} still pending after ${cancels} cancel attempts`);
+        }
+        fees = bumpQuote(fees, replacement.bumpMultiplier, await feeStrategy.quote(l1Client));
+        const kind: AttemptKind = fees.maxFeePerGas > ceiling ? "cancel" : "replacement";
+        const attempt: TxAttempt = { kind, fees, sentAt: Date.now() };
+        if (kind === "cancel") cancels++;
+        nextSendAt = Date.now() + replacement.afterMs;
+
+        let fatal: unknown;
+        try {
+          Object.assign(attempt, await this.broadcast(tx.wallet, tx.estimate, tx.nonce, attempt));
+        } catch (error: any) {
+          attempt.error = error?.shortMessage || error?.message || String(error);
+          const msg = attempt.error!.toLowerCase();
+          if (msg.includes("nonce too low") || msg.includes("already known")) {
+            // An earlier attempt is in; stop sending and wait for its receipt
+            nonceUsed = true;
+            nextSendAt = Date.now() + this.opts.confirmationTimeoutMs;
+          } else if (msg.includes("underpriced") || msg.includes("tip too low") || msg.includes("base fee")) {
+            nextSendAt = Date.now() + 500;
+          } else {
+            fatal = error;
+          }
+        }
+        tx.attempts.push(attempt);
+        this.emit("replaced", { submitted: tx, attempt });
+        if (fatal) throw fatal;
+      }
+
+      await sleep(Math.max(0, Math.min(L1_POLL_MS, nextSendAt - Date.now())));
+    }
+  }
+
+  /** True when no attempt for the nonce is mined or still known to the node. */
+  private async isDropped(address: Address, nonce: number, attempts: Pick<TxAttempt, "l1Hash">[]): Promise<boolean> {
+    const { l1Client } = this.opts;
+    const latest = await l1Client.getTransactionCount({ address, blockTag: "latest" });
+    if (latest > nonce) return false;
+    for (const attempt of attempts) {
+      if (!attempt.l1Hash) continue;
+      const known = await l1Client.getTransaction({ hash: attempt.l1Hash }).then(
+        () => true,
+        () => false
+      );
+      if (known) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Cancel nonce gaps that in-flight transactions are stuck behind. Every
+   * cancel is sent before any is waited for; each is charged to its wallet
+   * once mined, and its nonce settled then, or released if it was dropped.
+   */
+  private async fillGaps(ethPriceUsd: number) {
+    const sent: { wallet: MiningWallet; nonce: number; attempt: TxAttempt }[] = [];
+    for (const wallet of this.opts.wallets.wallets) {
+      const address = wallet.account.address;
+      for (let i = this.nonces.gaps(address).length; i > 0; i--) {
+        const nonce = await this.nonces.acquire(address);
+        let attempt: TxAttempt;
+        try {
+          const fees = await this.opts.feeStrategy.quote(this.opts.l1Client);
+          attempt = { kind: "cancel", fees, sentAt: Date.now() };
+          attempt.l1Hash = await this.sendCancel(wallet, nonce, fees);
+        } catch {
+          this.nonces.release(address, nonce); // retried on the next pass
+          continue;
+        }
+        this.emit("gapCancel", { wallet, nonce, attempt, ethPriceUsd });
+        sent.push({ wallet, nonce, attempt });
+      }
+    }
+
+    await Promise.all(
+      sent.map(async ({ wallet, nonce, attempt }) => {
+        const address = wallet.account.address;
+        try {
+          const cost = await this.l1Cost(attempt.l1Hash!);
+          this.opts.wallets.charge(wallet, cost);
+          this.nonces.settle(address, nonce);
+          this.emit("gapCancel", { wallet, nonce, attempt, ethPriceUsd, cost });
+        } catch {
+          // Not mined in time: the journal keeps it open for startup reconciliation
+          const dropped = await this.isDropped(address, nonce, [attempt]).catch(() => false);
+          if (dropped) this.nonces.release(address, nonce);
+          else this.nonces.settle(address, nonce);
+        }
+      })
+    );
+  }
+
+  /** Wait until an in-flight transaction settles, filling gaps that block them. */
+  private async waitForInFlight(inFlight: Set<Promise<void>>, ethPriceUsd: number) {
+    await this.fillGaps(ethPriceUsd);
+    await Promise.race([...inFlight, sleep(L1_POLL_MS)]);
+  }
+
+  /** The attempt whose L1 transaction has a receipt, newest first. */
+  private async findIncluded<A extends Pick<TxAttempt, "l1Hash">>(attempts: A[]): Promise<A | null> {
+    for (const attempt of [...attempts].reverse()) {
+      if (!attempt.l1Hash) continue;
+      const receipt = await this.opts.l1Client
+        .getTransactionReceipt({ hash: attempt.l1Hash })
+        .catch(() => null);
+      if (receipt) return attempt;
+    }
+    return null;
+  }
+
+  // -------- Recovery --------
+
+  /**
+   * Resolve a nonce left unsettled by an earlier run against the chain: one
+   * of its attempts mined (confirmed, with the Facet mint), nothing mined
+   * and nothing known to the node (dropped), or still waiting (pending).
+   * Read-only; spend is not charged to the pool.
+   */
+  async reconcile(tx: UnsettledNonce): Promise<Reconciliation> {
+    const { l1Client, facetClient } = this.opts;
+    const none = { cancelled: false, fctMinted: 0n, mintReported: false };
+
+    const latest = await l1Client.getTransactionCount({ address: tx.address, blockTag: "latest" });
+    if (latest <= tx.nonce) {
+      // The node's mempool may hold it even when the hashes we have are not the one it kept
+      const pending = await l1Client.getTransactionCount({ address: tx.address, blockTag: "pending" });
+      if (pending > tx.nonce) {
+        const reason = `in the mempool (account is at nonce ${latest}, ${pending} with pending)`;
+        return { status: "pending", reason, ...none };
+      }
+      const dropped = await this.isDropped(tx.address, tx.nonce, tx.attempts);
+      return dropped
+        ? { status: "dropped", reason: "no attempt was mined or is known to the node", ...none }
+        : { status: "pending", reason: `account is at nonce ${latest}`, ...none };
+    }
+
+    const landed = await this.findIncluded(tx.attempts);
+    if (!landed) {
+      return { status: "dropped", reason: "nonce was used by a transaction the miner did not send", ...none };
+    }
+    const cost = await this.l1Cost(landed.l1Hash!);
+    if (landed.kind === "cancel" || !landed.facetHash) {
+      return { status: "confirmed", reason: "cancel was mined", ...none, l1Hash: landed.l1Hash, cost, cancelled: true };
+    }
+
+    const receipt = await facetClient
+      .waitForTransactionReceipt({ hash: landed.facetHash, timeout: this.opts.confirmationTimeoutMs })
+      .catch(() => null);
+    const facetTx = receipt ? await facetClient.getTransaction({ hash: landed.facetHash }).catch(() => null) : null;
+    const mint = reportedMint(facetTx);
+    return {
+      status: "confirmed",
+      reason: receipt ? `mined in L1 block ${cost.l1Block}` : "mined on L1, but Facet has no receipt for it",
+      l1Hash: landed.l1Hash,
+      facetHash: landed.facetHash,
+      cost,
+      cancelled: false,
+      fctMinted: mint ?? 0n,
+      mintReported: mint != null,
+      facetBlock: receipt?.blockNumber,
+    };
+  }
+
+  /** Mine until `spendCap` (or every wallet's own cap/minimum) is reached. */
+  async runSession(opts: SessionOptions): Promise<SessionSummary> {
+    const { wallets } = this.opts;
+    wallets.resetSession();
+    await wallets.refreshBalances(this.opts.l1Client);
+
+    // STOP_ON_TX_FAIL=false keeps going past a failed transaction, but not
+    // past a run of them (a dead RPC or empty wallet would spin forever)
+    let consecutiveFailures = 0;
+    let stopping = false;
+    const settle = (result: MiningResult | null) => {
+      if (result) consecutiveFailures = 0;
+      else if (opts.stopOnFail || ++consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) stopping = true;
+    };
+
+    // Up to maxInFlight transactions await confirmation while the next is
+    // sent; each holds its worst-case cost against the caps until it settles
+    const maxInFlight = Math.max(1, opts.maxInFlight ?? 1);
+    const inFlight = new Set<Promise<void>>();
+    let reserved = 0n;
+    this.nonces.reset();
+
+    while (!stopping && !this.stopRequested) {
+      if (this.paused) {
+        await sleep(PAUSE_POLL_MS);
+        continue;
+      }
+      if (inFlight.size >= maxInFlight) {
+        await Promise.race(inFlight);
+        continue;
+      }
+
+      let estimate: MiningEstimate;
+      try {
+        estimate = this.quote(opts.sizeBytes, opts.ethPriceUsd, await this.snapshot());
+      } catch (error) {
+        this.emit("failed", { stage: "estimate", error });
+        break;
+      }
+      // Replacements can pay up to the fee ceiling for the whole payload's gas
+      const cost = estimate.inputGas * this.feeCeiling(estimate.snapshot.fees);
+      if (opts.maxGasPrice != null && estimate.effectiveGasPrice > opts.maxGasPrice) {
+        stopping = true; // gas rose past what the session was started for
+        continue;
+      }
+
+      // Next wallet with room under its own cap and minimum balance; in-flight
+      // reserves are not in the budget ledger until they settle
+      const withinCaps =
+        wallets.totalSpent + reserved + cost <= opts.spendCap &&
+        (opts.budget?.allows(reserved + cost, opts.ethPriceUsd) ?? true);
+      const wallet = withinCaps ? wallets.pick(cost) : null;
+      if (!wallet) {
+        if (inFlight.size === 0) break;
+        await this.waitForInFlight(inFlight, opts.ethPriceUsd); // a confirmation may come in under its reserve
+        continue;
+      }
+
+      this.emit("estimate", { estimate, wallet });
+      const submitted = await this.submit(wallet, estimate);
+      if (!submitted) {
+        settle(null);
+        continue;
+      }
+
+      reserved += cost;
+      wallets.reserve(wallet, cost);
+      const tracked: Promise<void> = this.confirm(submitted)
+        .then(settle)
+        .finally(() => {
+          reserved -= cost;
+          wallets.release(wallet, cost);
+          inFlight.delete(tracked);
+        });
+      inFlight.add(tracked);
+    }
+
+    while (inFlight.size > 0) await this.waitForInFlight(inFlight, opts.ethPriceUsd);
+    const summary = this.sessionSummary(opts.ethPriceUsd);
+    this.stopRequested = false;
+    return summary;
+  }
+}
@@ -0,0 +1,158 @@
+// FCT mint-rate tracking. Facet re-targets the mint rate once per adjustment
+// period (a fixed number of L1 blocks, cut short when the period's issuance
+// target is reached), so the rate is a step function of the L1 block. We
+// sample it from every market snapshot and from the `mint` on our own
+// confirmed transactions, locate period boundaries from where the quoted
+// rate stepped, and forecast the next period's rate. Realised mints divide
+// by the payload's data gas only, not the transaction's, so they run a
+// little off the quote and are compared to it rather than stepped against.
+//
+// The forecast is a heuristic: issuance across the whole network is not
+// visible from here, so the next adjustment is assumed to go the same way
+// as the last one we saw, within Facet's 0.5x..2x bounds per period.
+
+export const DEFAULT_PERIOD_BLOCKS = 10_000;
+const MAX_ADJUSTMENT = 2;
+const MAX_SAMPLES = 2_000;
+
+export type MintRateSource = "quote" | "mint";
+
+export interface MintRateSample {
+  l1Block: bigint;
+  rate: bigint;
+  source: MintRateSource;
+}
+
+export interface MintRateAdjustment {
+  l1Block: bigint; // first block seen at the new rate
+  from: bigint;
+  to: bigint;
+  factor: number; // to / from
+}
+
+export interface MintRateOutlook {
+  l1Block: bigint;
+  rate: bigint;
+  periodStart: bigint;
+  periodEnd: bigint; // latest possible end; the issuance target can end it sooner
+  blocksLeft: number;
+  progress: number; // 0..1 through the period
+  startObserved: boolean; // false = assumed aligned to the period length
+  forecastRate: bigint;
+  changePercent: number; // forecast vs current
+  lastAdjustment?: MintRateAdjustment;
+  realisedRate?: bigint; // from our latest confirmed mint
+  realisedDriftPercent?: number; // that mint vs the quote at its block
+}
+
+export type MintRateGateMode = "off" | "wait-for-rise" | "mine-before-drop" | "both";
+
+export interface MintRateGate {
+  mode: MintRateGateMode;
+  withinBlocks: number; // how close to the period end a change counts as imminent
+  minChangePercent: number;
+}
+
+/** FCT minted per wei of calldata cost, as FCT per ETH. */
+export function formatMintRate(rate: bigint): string {
+  return Number(rate).toLocaleString(undefined, { maximumFractionDigits: 0 });
+}
+
+export class MintRateTracker {
+  private samples: MintRateSample[] = []; // sorted by l1Block
+
+  constructor(private readonly periodBlocks = DEFAULT_PERIOD_BLOCKS) {}
+
+  sample(l1Block: bigint, rate: bigint, source: MintRateSource = "quote") {
+    if (rate <= 0n) return;
+    let i = this.samples.length;
+    while (i > 0 && this.samples[i - 1].l1Block > l1Block) i--;
+    this.samples.splice(i, 0, { l1Block, rate, source });
+    if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+  }
+
+  /**
+   * Record the rate a confirmed transaction actually minted at: `mint` over
+   * the calldata cost at its L1 block's base fee.
+   */
+  recordMint(l1Block: bigint, fctMinted: bigint, dataGas: bigint, baseFeePerGas: bigint) {
+    const cost = dataGas * baseFeePerGas;
+    if (fctMinted > 0n && cost > 0n) this.sample(l1Block, fctMinted / cost, "mint");
+  }
+
+  /**
+   * Rate steps seen so far, oldest first. Only consecutive samples from the
+   * same source are compared, so the gap between realised and quoted rates
+   * never reads as a step.
+   */
+  adjustments(source: MintRateSource = "quote"): MintRateAdjustment[] {
+    const samples = this.samples.filter((s) => s.source === source);
+    const steps: MintRateAdjustment[] = [];
+    for (let i = 1; i < samples.length; i++) {
+      const prev = samples[i - 1];
+      const next = samples[i];
+      // Integer division on realised mints can be off by one; that is not a step
+      const diff = next.rate > prev.rate ? next.rate - prev.rate : prev.rate - next.rate;
+      if (diff * 1000n <= prev.rate) continue;
+      steps.push({
+        l1Block: next.l1Block,
+        from: prev.rate,
+        to: next.rate,
+        factor: Number(next.rate) / Number(prev.rate),
+      });
+    }
+    return steps;
+  }
+
+  outlook(l1Block?: bigint): MintRateOutlook | null {
+    const quotes = this.samples.filter((s) => s.source === "quote");
+    const latest = quotes[quotes.length - 1] ?? this.samples[this.samples.length - 1];
+    if (!latest) return null;
+    const block = l1Block ?? latest.l1Block;
+    const period = BigInt(this.periodBlocks);
+
+    const steps = this.adjustments();
+    const last = steps[steps.length - 1];
+    let periodStart: bigint;
+    let startObserved = false;
+    if (last) {
+      // Periods can end early, so only the most recent step is a known start
+      periodStart = last.l1Block;
+      while (periodStart + period <= block) periodStart += period;
+      startObserved = periodStart === last.l1Block;
+    } else {
+      periodStart = (block / period) * period;
+    }
+    const periodEnd = periodStart + period;
+    const blocksLeft = Number(periodEnd - block);
+
+    const factor = last ? Math.min(MAX_ADJUSTMENT, Math.max(1 / MAX_ADJUSTMENT, last.factor)) : 1;
+    const forecastRate = BigInt(Math.round(Number(latest.rate) * factor));
+    const realised = [...this.samples].reverse().find((s) => s.source === "mint");
+    const quoted = realised && [...quotes].reverse().find((s) => s.l1Block <= realised.l1Block);
+
+    return {
+      l1Block: block,
+      rate: latest.rate,
+      periodStart,
+      periodEnd,
+      blocksLeft,
+      progress: Math.min(1, Number(block - periodStart) / this.periodBlocks),
+      startObserved,
+      forecastRate,
+      changePercent: (factor - 1) * 100,
+      lastAdjustment: last,
+      realisedRate: realised?.rate,
+      realisedDriftPercent:
+        realised && quoted ? (Number(realised.rate) / Number(quoted.rate) - 1) * 100 : undefined,
+    };
+  }
+
+  /** Forecast change that will land within the gate's window, or null. */
+  imminentChange(gate: MintRateGate, l1Block?: bigint): "rise" | "drop" | null {
+    const outlook = this.outlook(l1Block);
+    if (!outlook || gate.mode === "off" || outlook.blocksLeft > gate.withinBlocks) return null;
+    if (Math.abs(outlook.changePercent) < gate.minChangePercent || outlook.changePercent === 0) return null;
+    return outlook.changePercent > 0 ? "rise" : "drop";
+  }
+}
@@ -0,0 +1,93 @@
+import type { Address, PublicClient } from "viem";
+
+// Local nonce assignment so several mining transactions from one account can
+// be in flight at once. The chain's `pending` count is read once per session;
+// after that nonces come from here. A nonce whose transaction never reached
+// L1 is released: reused right away if it was the newest, otherwise kept as
+// a gap that the next send (or a cancel) must fill, since every later nonce
+// of the account waits behind it.
+
+interface AccountNonces {
+  next?: number; // unset until first read from the chain
+  gaps: number[]; // released below `next`, ascending
+  inFlight: Set<number>;
+}
+
+export class NonceManager {
+  private readonly accounts = new Map<string, AccountNonces>();
+
+  constructor(private readonly client: PublicClient) {}
+
+  private state(address: Address): AccountNonces {
+    const key = address.toLowerCase();
+    let state = this.accounts.get(key);
+    if (!state) {
+      state = { gaps: [], inFlight: new Set() };
+      this.accounts.set(key, state);
+    }
+    return state;
+  }
+
+  /** Lowest gap first, otherwise the next new nonce. */
+  async acquire(address: Address): Promise<number> {
+    const state = this.state(address);
+    if (state.next == null) {
+      state.next = await this.client.getTransactionCount({ address, blockTag: "pending" });
+    }
+    const nonce = state.gaps.length > 0 ? state.gaps.shift()! : state.next++;
+    state.inFlight.add(nonce);
+    return nonce;
+  }
+
+  /** The nonce is used on L1 (mined, replaced or cancelled), or out of our hands. */
+  settle(address: Address, nonce: number) {
+    this.state(address).inFlight.delete(nonce);
+  }
+
+  /** The nonce's transaction never reached L1 and is not pending: it can be used again. */
+  release(address: Address, nonce: number) {
+    const state = this.state(address);
+    state.inFlight.delete(nonce);
+    if (state.next == null || nonce >= state.next || state.gaps.includes(nonce)) return;
+
+    state.gaps.push(nonce);
+    state.gaps.sort((a, b) => a - b);
+    // Gaps at the top are not gaps: nothing waits behind them
+    while (state.gaps.length > 0 && state.gaps[state.gaps.length - 1] === state.next - 1) {
+      state.gaps.pop();
+      state.next--;
+    }
+  }
+
+  /** Released nonces that later in-flight transactions are waiting behind. */
+  gaps(address: Address): number[] {
+    const state = this.state(address);
+    const highest = Math.max(-1, ...state.inFlight);
+    return state.gaps.filter((gap) => gap < highest);
+  }
+
+  /** Whether a lower nonce of the account is still in flight or unfilled. */
+  blockedBy(address: Address, nonce: number): boolean {
+    const state = this.state(address);
+    return state.gaps.some((gap) => gap < nonce) || [...state.inFlight].some((n) => n < nonce);
+  }
+
+  /**
+   * Re-read the chain after it disagreed with us (e.g. "nonce too low" when
+   * another process used the account): nonces below `latest` are gone.
+   */
+  async resync(address: Address) {
+    const state = this.state(address);
+    const [latest, pending] = await Promise.all([
+      this.client.getTransactionCount({ address, blockTag: "latest" }),
+      this.client.getTransactionCount({ address, blockTag: "pending" }),
+    ]);
+    state.next = Math.max(state.next ?? 0, pending);
+    state.gaps = state.gaps.filter((gap) => gap >= latest);
+  }
+
+  /** Forget everything; the next acquire reads the chain again. */
+  reset() {
+    this.accounts.clear();
+  }
+}
@@ -0,0 +1,100 @@
+import * as fs from "fs";
+import { randomBytes } from "crypto";
+import { hexToBytes, isHex } from "viem";
+
+// Mine-boost payloads and the calldata gas they cost. MINE_PAYLOAD picks the
+// generator:
+//
+//   pattern:FACETMINE    repeat a text (the default)
+//   hex:0xdeadbeef       repeat raw bytes
+//   file:./payload.bin   repeat a file's bytes
+//   random               fresh random non-zero bytes for every transaction
+//   tag:<message>        the message first, then the default pattern
+//
+// Zero bytes cost less calldata gas than non-zero ones, and Facet mints in
+// proportion to the calldata gas paid, so a payload with zeros mints less
+// per byte but not per ETH.
+//
+// Two L1 pricing rules apply to calldata. The standard rule (EIP-2028) charges
+// 4 gas per zero byte and 16 per non-zero byte; the floor rule (EIP-7623)
+// charges 10 and 40 and applies when a transaction does little besides carry
+// data, as a mining transaction does. The engine quotes cost and mint with
+// the SDK's calculateInputGasCost; `npm run payloads` compares it with both.
+
+export const DEFAULT_PAYLOAD = "pattern:FACETMINE";
+
+export type GasRule = "standard" | "floor";
+
+export const CALLDATA_GAS: Record<GasRule, { zero: bigint; nonZero: bigint }> = {
+  standard: { zero: 4n, nonZero: 16n },
+  floor: { zero: 10n, nonZero: 40n },
+};
+
+export interface PayloadGenerator {
+  readonly spec: string; // as given in MINE_PAYLOAD
+  /**
+   * `sizeBytes` of payload. A shorter payload has the zero/non-zero layout of
+   * a longer one's start, so the size optimizer can price every size from
+   * one generated payload.
+   */
+  generate(sizeBytes: number): Uint8Array;
+}
+
+export function calldataGas(data: Uint8Array, rule: GasRule): bigint {
+  let zeroBytes = 0n;
+  for (const byte of data) if (byte === 0) zeroBytes++;
+  const { zero, nonZero } = CALLDATA_GAS[rule];
+  return zeroBytes * zero + (BigInt(data.length) - zeroBytes) * nonZero;
+}
+
+function repeat(bytes: Uint8Array, sizeBytes: number): Uint8Array {
+  const data = new Uint8Array(sizeBytes);
+  for (let i = 0; i < sizeBytes; i++) data[i] = bytes[i % bytes.length];
+  return data;
+}
+
+function repeating(spec: string, bytes: Uint8Array): PayloadGenerator {
+  if (bytes.length === 0) throw new Error(`"${spec}" has no bytes to repeat`);
+  return { spec, generate: (sizeBytes) => repeat(bytes, sizeBytes) };
+}
+
+/** Parse MINE_PAYLOAD; throws on an unknown kind or unusable bytes. */
+export function parsePayload(spec: string = DEFAULT_PAYLOAD): PayloadGenerator {
+  const colon = spec.indexOf(":");
+  const kind = (colon < 0 ? spec : spec.slice(0, colon)).trim().toLowerCase();
+  const arg = colon < 0 ? "" : spec.slice(colon + 1);
+  switch (kind) {
+    case "pattern":
+      return repeating(spec, new TextEncoder().encode(arg || "FACETMINE"));
+    case "hex":
+      if (!isHex(arg) || arg.length % 2 !== 0) throw new Error(`"${arg}" is not 0x-prefixed hex`);
+      return repeating(spec, hexToBytes(arg));
+    case "file":
+      if (!arg || !fs.existsSync(arg)) throw new Error(`file "${arg}" not found`);
+      return repeating(spec, new Uint8Array(fs.readFileSync(arg)));
+    case "random":
+      return {
+        spec,
+        generate: (sizeBytes) => {
+          const data = new Uint8Array(randomBytes(sizeBytes));
+          for (let i = 0; i < data.length; i++) if (data[i] === 0) data[i] = 1 + (i % 255);
+          return data;
+        },
+      };
+    case "tag": {
+      const tag = new TextEncoder().encode(arg);
+      if (tag.length === 0) throw new Error("tag: needs a message");
+      const fill = new TextEncoder().encode("FACETMINE");
+      return {
+        spec,
+        generate: (sizeBytes) => {
+          const data = repeat(fill, sizeBytes);
+          data.set(tag.subarray(0, sizeBytes));
+          return data;
+        },
+      };
+    }
+    default:
+      throw new Error(`unknown payload "${spec}" (expected pattern:, hex:, file:, random or tag:)`);
+  }
+}
@@ -0,0 +1,143 @@
+#!/usr/bin/env tsx
+import "dotenv/config";
+import { createPublicClient, formatEther, formatGwei } from "viem";
+import { calculateInputGasCost, getFctMintRate } from "@0xfacet/sdk/utils";
+import { getNetworkConfig } from "./config";
+import { l1Transport } from "./rpc";
+import { fetchEthPriceUsd } from "./price";
+import { FeeStrategy } from "./fee-strategy";
+import { printTable } from "./history";
+import { loadMinerConfig } from "./miner-config";
+import { BASE_EXECUTION_GAS, MAX_SIZE_KB, OVERHEAD_BYTES } from "./mining-engine";
+import { calldataGas, DEFAULT_PAYLOAD, parsePayload, type PayloadGenerator } from "./payload";
+
+// Compare mine-boost payloads before picking MINE_PAYLOAD: for each generator
+// and size, calldata gas under the standard (4/16) and floor (10/40) rules and
+// the SDK model the miner quotes with, efficiency, and the expected mint and
+// cost per FCT at current L1 fees and mint rate. Mint follows the SDK model;
+// cost is shown under both L1 rules, since that is what the payload changes.
+
+const DEFAULT_SIZES_KB = [25, 50, 75, 100];
+const COMPARED = [DEFAULT_PAYLOAD, "random", "hex:0x00ff", "tag:mined-by-example"];
+
+interface PayloadOptions {
+  sizesKb: number[];
+  payloads: string[];
+  offline: boolean;
+}
+
+interface Market {
+  baseFee: bigint;
+  effectiveGasPrice: bigint;
+  fctMintRate: bigint;
+  ethPriceUsd: number;
+}
+
+function usage(): never {
+  console.log("Usage: npm run payloads -- [options]");
+  console.log("  --sizes <KB,...>      Sizes to compare (default: 25,50,75,100)");
+  console.log("  --payload <spec>      A MINE_PAYLOAD to compare; repeat for more");
+  console.log(`                        (default: MINE_PAYLOAD and ${COMPARED.join(", ")})`);
+  console.log("  --offline             Gas only; skip fees, mint rate and price");
+  process.exit(1);
+}
+
+function parseArgs(args: string[]): PayloadOptions {
+  const opts: PayloadOptions = { sizesKb: DEFAULT_SIZES_KB, payloads: [], offline: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => args[++i] ?? usage();
+    if (arg === "--sizes") {
+      opts.sizesKb = value().split(",").map(Number);
+      if (opts.sizesKb.some((kb) => !Number.isInteger(kb) || kb < 1 || kb > MAX_SIZE_KB)) usage();
+    } else if (arg === "--payload") opts.payloads.push(value());
+    else if (arg === "--offline") opts.offline = true;
+    else usage();
+  }
+  return opts;
+}
+
+async function readMarket(feeStrategy: FeeStrategy): Promise<Market> {
+  const networkConfig = getNetworkConfig();
+  const client = createPublicClient({ chain: networkConfig.l1Chain, transport: l1Transport() });
+  const [fees, fctMintRate, ethPriceUsd] = await Promise.all([
+    feeStrategy.quote(client),
+    getFctMintRate(networkConfig.l1Chain.id),
+    fetchEthPriceUsd(),
+  ]);
+  return { baseFee: fees.nextBaseFee, effectiveGasPrice: fees.effectiveGasPrice, fctMintRate, ethPriceUsd };
+}
+
+function row(generator: PayloadGenerator, kb: number, market: Market | null): string[] {
+  const data = generator.generate(kb * 1024 - OVERHEAD_BYTES);
+  const zeros = data.reduce((n, byte) => n + (byte === 0 ? 1 : 0), 0);
+  const standard = calldataGas(data, "standard");
+  const floor = calldataGas(data, "floor");
+  const sdk = calculateInputGasCost(data);
+  const efficiency = (gas: bigint) => `${((Number(gas) / Number(gas + BASE_EXECUTION_GAS)) * 100).toFixed(1)}%`;
+
+  const cells = [
+    generator.spec,
+    `${kb}KB`,
+    `${((zeros / data.length) * 100).toFixed(0)}%`,
+    standard.toString(),
+    floor.toString(),
+    sdk.toString(),
+    efficiency(standard),
+    efficiency(floor),
+  ];
+  if (!market) return cells;
+
+  // Same mint model as MiningEngine.quote()
+  const fct = sdk * market.baseFee * market.fctMintRate;
+  const usdPerFct = (gas: bigint) => {
+    if (fct === 0n) return "-";
+    const eth = Number(formatEther((gas + BASE_EXECUTION_GAS) * market.effectiveGasPrice));
+    return `$${((eth * market.ethPriceUsd) / Number(formatEther(fct))).toFixed(6)}`;
+  };
+  return [...cells, Number(formatEther(fct)).toFixed(2), usdPerFct(standard), usdPerFct(floor)];
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const { config } = loadMinerConfig();
+  const specs = opts.payloads.length > 0 ? opts.payloads : [...new Set([config.minePayload, ...COMPARED])];
+  const generators = specs.map((spec) => {
+    try {
+      return parsePayload(spec);
+    } catch (error: any) {
+      console.error(`--payload ${spec}: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+  let market: Market | null = null;
+  if (!opts.offline) {
+    const feeStrategy = new FeeStrategy({
+      mode: config.feeStrategy,
+      targetInclusionSec: config.targetInclusionSec,
+      historyBlocks: config.feeHistoryBlocks,
+      percentile: config.priorityFeePercentile,
+      gasPriceMultiplier: config.gasPriceMultiplier,
+    });
+    market = await readMarket(feeStrategy);
+    console.log(
+      `L1 base fee ${Number(formatGwei(market.baseFee)).toFixed(2)} gwei, ` +
+        `expected gas price ${Number(formatGwei(market.effectiveGasPrice)).toFixed(2)} gwei, ` +
+        `ETH $${market.ethPriceUsd.toFixed(0)} (${feeStrategy.describe()})`
+    );
+  }
+
+  const header = ["Payload", "Size", "Zeros", "Gas std", "Gas floor", "Gas SDK", "Eff std", "Eff floor"];
+  if (market) header.push("FCT", "$/FCT std", "$/FCT floor");
+  const rows = generators.flatMap((generator) => opts.sizesKb.map((kb) => row(generator, kb, market)));
+  printTable(header, rows, 1);
+  console.log(`Current MINE_PAYLOAD: ${config.minePayload}`);
+}
+
+if (import.meta.main) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,61 @@
+import { zeroAddress, type Address, type PublicClient } from "viem";
+import { UNIV2_FACTORY_ABI, UNIV2_ROUTER_ABI } from "./abi";
+
+// Facet's ETH price API
+export const ETH_PRICE_API_URL = "https://eth-price.facet.org";
+
+export async function fetchEthPriceUsd(): Promise<number> {
+  const response = await fetch(ETH_PRICE_API_URL);
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  const data = await response.json();
+  const price = parseFloat(data.priceInUSD);
+
+  if (isNaN(price) || price <= 0) {
+    throw new Error("Invalid price data received");
+  }
+
+  return price;
+}
+
+const FCT_QUOTE_WETH = 10n ** 16n; // 0.01 WETH: small enough to keep price impact out
+
+/** FCT per ETH on the Facet WETH/wFCT pool, quoted through the router. */
+export async function fetchFctPerEth(
+  facetClient: PublicClient,
+  contracts: { router: Address; weth: Address; wfct: Address }
+): Promise<number> {
+  const amounts = await facetClient.readContract({
+    address: contracts.router,
+    abi: UNIV2_ROUTER_ABI,
+    functionName: "getAmountsOut",
+    args: [FCT_QUOTE_WETH, [contracts.weth, contracts.wfct]],
+  });
+  const fctPerEth = Number(amounts[1]) / Number(FCT_QUOTE_WETH);
+  if (!(fctPerEth > 0)) {
+    throw new Error("Invalid FCT quote received");
+  }
+  return fctPerEth;
+}
+
+/** The WETH/wFCT pair: FCT_WETH_PAIR when set, otherwise looked up from the router's factory. */
+export async function fetchFctWethPair(
+  facetClient: PublicClient,
+  contracts: { router: Address; weth: Address; wfct: Address; fctWethPair?: Address }
+): Promise<Address> {
+  if (contracts.fctWethPair) return contracts.fctWethPair;
+  const factory = await facetClient.readContract({
+    address: contracts.router,
+    abi: UNIV2_ROUTER_ABI,
+    functionName: "factory",
+  });
+  const pair = await facetClient.readContract({
+    address: factory,
+    abi: UNIV2_FACTORY_ABI,
+    functionName: "getPair",
+    args: [contracts.weth, contracts.wfct],
+  });
+  if (pair === zeroAddress) throw new Error(`router factory ${factory} has no WETH/wFCT pair`);
+  return pair;
+}
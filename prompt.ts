@@ -0,0 +1,37 @@
+import * as readline from "readline";
+
+// Every interactive prompt goes through here, so Ctrl+C behaves the same in
+// all of them: the prompt closes and the process gets SIGINT as it would
+// outside a prompt (exit, or whatever SIGINT handler is installed).
+
+function ask(question: string, hidden: boolean): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const out = rl as unknown as { _writeToOutput: (s: string) => void; output: NodeJS.WriteStream };
+  let muted = false;
+  out._writeToOutput = (s: string) => {
+    if (!muted) out.output.write(s);
+  };
+  rl.on("SIGINT", () => {
+    rl.close();
+    process.stdout.write("\n");
+    process.kill(process.pid, "SIGINT");
+  });
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      if (hidden) process.stdout.write("\n");
+      // Passwords are kept as typed, surrounding spaces included
+      resolve(hidden ? answer : answer.trim());
+    });
+    muted = hidden;
+  });
+}
+
+export function prompt(question: string): Promise<string> {
+  return ask(question, false);
+}
+
+// Like prompt(), but does not echo what is typed (keys, passwords)
+export function promptHidden(question: string): Promise<string> {
+  return ask(question, true);
+}
@@ -0,0 +1,281 @@
+import {
+  BaseError,
+  custom,
+  http,
+  HttpRequestError,
+  keccak256,
+  RpcRequestError,
+  TimeoutError,
+  type Chain,
+  type EIP1193Parameters,
+  type EIP1193RequestFn,
+  type Hex,
+  type Transport,
+} from "viem";
+import { getNetworkConfig } from "./config";
+
+export interface EndpointHealth {
+  url: string;
+  latencyMs: number; // moving average of request latency
+  errorRate: number; // moving average, 0..1
+  blockNumber: bigint | null; // last block seen by the health probe
+  blockLag: number; // blocks behind the most advanced endpoint in the pool
+  requests: number;
+  errors: number;
+  lastError?: string;
+  score: number; // lower is better
+}
+
+export interface RpcPoolOptions {
+  timeoutMs?: number;
+  probeIntervalMs?: number;
+}
+
+// Weights used to turn latency, error rate and block lag into one score (in ms)
+const ERROR_PENALTY_MS = 5_000;
+const BLOCK_LAG_PENALTY_MS = 1_000;
+// Only leave a healthy endpoint when another one is clearly better
+const SWITCH_MARGIN = 0.8;
+const EWMA_ALPHA = 0.2;
+
+// Transport-level failures (and rate limits) move the request to the next
+// endpoint. Anything else is an answer from the node and is passed through.
+function isFailoverError(error: unknown): boolean {
+  if (error instanceof HttpRequestError || error instanceof TimeoutError) return true;
+  if (error instanceof RpcRequestError) {
+    return error.code === -32005 || error.code === -32002 || error.code === 429;
+  }
+  return false;
+}
+
+// A send that timed out on one endpoint may still have been broadcast, so the
+// retry on the next one can find the transaction already there.
+const ALREADY_SENT = /already known|known transaction|already imported|nonce too low/i;
+
+function shortError(error: unknown): string {
+  const message =
+    error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+  return message.split("\n")[0];
+}
+
+export class RpcPool {
+  readonly label: string;
+  private endpoints: EndpointHealth[];
+  private transports: Map<string, { request: EIP1193RequestFn }>;
+  private currentIndex = 0;
+  private probeTimer: NodeJS.Timeout | null = null;
+  private options: Required<RpcPoolOptions>;
+
+  constructor(label: string, urls: string[], chain?: Chain, options: RpcPoolOptions = {}) {
+    if (urls.length === 0) throw new Error(`${label}: no RPC URLs configured`);
+    this.label = label;
+    this.options = {
+      timeoutMs: options.timeoutMs ?? 10_000,
+      probeIntervalMs: options.probeIntervalMs ?? 30_000,
+    };
+    this.endpoints = urls.map((url) => ({
+      url,
+      latencyMs: 0,
+      errorRate: 0,
+      blockNumber: null,
+      blockLag: 0,
+      requests: 0,
+      errors: 0,
+      score: 0,
+    }));
+    this.transports = new Map(
+      urls.map((url) => [
+        url,
+        http(url, { retryCount: 0, timeout: this.options.timeoutMs })({ chain, retryCount: 0 }),
+      ])
+    );
+  }
+
+  /** viem transport that sends each request to the healthiest endpoint. */
+  transport(): Transport {
+    return custom(
+      { request: (args: EIP1193Parameters) => this.request(args) },
+      { key: `failover-${this.label}`, name: `Failover (${this.label})`, retryCount: 1 }
+    );
+  }
+
+  current(): EndpointHealth {
+    return { ...this.endpoints[this.currentIndex] };
+  }
+
+  health(): EndpointHealth[] {
+    return this.endpoints.map((e) => ({ ...e }));
+  }
+
+  async request(args: EIP1193Parameters): Promise<unknown> {
+    const order = [
+      this.currentIndex,
+      ...this.rankedIndexes().filter((i) => i !== this.currentIndex),
+    ];
+
+    let lastError: unknown;
+    for (const index of order) {
+      const endpoint = this.endpoints[index];
+      const started = Date.now();
+      try {
+        const result = await this.transports.get(endpoint.url)!.request(args);
+        this.record(endpoint, Date.now() - started, null);
+        if (index !== this.currentIndex) this.currentIndex = index;
+        return result;
+      } catch (error) {
+        if (!isFailoverError(error)) {
+          // The node answered; the endpoint itself is fine
+          this.record(endpoint, Date.now() - started, null);
+          const sent = await this.alreadySent(endpoint, args, error);
+          if (sent) return sent;
+          throw error;
+        }
+        this.record(endpoint, Date.now() - started, error);
+        lastError = error;
+      }
+    }
+    this.selectBest();
+    throw lastError;
+  }
+
+  /**
+   * The hash of a raw transaction the node rejected only because it already
+   * has it: "already known", or "nonce too low" for a transaction the node can
+   * find by hash (it was broadcast before a timeout and has since been mined).
+   */
+  private async alreadySent(
+    endpoint: EndpointHealth,
+    args: EIP1193Parameters,
+    error: unknown
+  ): Promise<Hex | null> {
+    // RpcRequestError keeps the node's own message in `details`
+    const message = `${error instanceof BaseError ? error.details : ""} ${shortError(error)}`;
+    if (args.method !== "eth_sendRawTransaction" || !ALREADY_SENT.test(message)) return null;
+    const [raw] = args.params as [Hex];
+    const hash = keccak256(raw);
+    if (!/nonce too low/i.test(message)) return hash;
+    try {
+      const tx = await this.transports.get(endpoint.url)!.request({ method: "eth_getTransactionByHash", params: [hash] });
+      return tx ? hash : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Query eth_blockNumber on every endpoint to refresh latency and block lag. */
+  async probe(): Promise<EndpointHealth[]> {
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        const started = Date.now();
+        try {
+          const hex = await this.transports.get(endpoint.url)!.request({ method: "eth_blockNumber" });
+          endpoint.blockNumber = BigInt(hex as Hex);
+          this.record(endpoint, Date.now() - started, null);
+        } catch (error) {
+          this.record(endpoint, Date.now() - started, error);
+        }
+      })
+    );
+
+    const heights = this.endpoints
+      .map((e) => e.blockNumber)
+      .filter((b): b is bigint => b != null);
+    const top = heights.reduce((a, b) => (b > a ? b : a), 0n);
+    for (const endpoint of this.endpoints) {
+      endpoint.blockLag = endpoint.blockNumber == null ? 0 : Number(top - endpoint.blockNumber);
+      endpoint.score = this.scoreOf(endpoint);
+    }
+
+    this.selectBest();
+    return this.health();
+  }
+
+  startProbing() {
+    if (this.probeTimer || this.endpoints.length < 2) return;
+    this.probe().catch(() => {});
+    this.probeTimer = setInterval(() => {
+      this.probe().catch(() => {});
+    }, this.options.probeIntervalMs);
+    this.probeTimer.unref();
+  }
+
+  stop() {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
+
+  private record(endpoint: EndpointHealth, latencyMs: number, error: unknown) {
+    endpoint.requests++;
+    endpoint.latencyMs =
+      endpoint.requests === 1
+        ? latencyMs
+        : endpoint.latencyMs * (1 - EWMA_ALPHA) + latencyMs * EWMA_ALPHA;
+    endpoint.errorRate = endpoint.errorRate * (1 - EWMA_ALPHA) + (error ? EWMA_ALPHA : 0);
+    if (error) {
+      endpoint.errors++;
+      endpoint.lastError = shortError(error);
+    }
+    endpoint.score = this.scoreOf(endpoint);
+  }
+
+  private scoreOf(endpoint: EndpointHealth): number {
+    return (
+      endpoint.latencyMs +
+      endpoint.errorRate * ERROR_PENALTY_MS +
+      endpoint.blockLag * BLOCK_LAG_PENALTY_MS
+    );
+  }
+
+  private rankedIndexes(): number[] {
+    return this.endpoints
+      .map((_, i) => i)
+      .sort((a, b) => this.endpoints[a].score - this.endpoints[b].score || a - b);
+  }
+
+  private selectBest() {
+    const [best] = this.rankedIndexes();
+    const current = this.endpoints[this.currentIndex];
+    if (this.endpoints[best].score < current.score * SWITCH_MARGIN) {
+      this.currentIndex = best;
+    }
+  }
+}
+
+let pools: { l1: RpcPool; facet: RpcPool } | null = null;
+
+/** Shared L1 and Facet pools built from the active network config. */
+export function getRpcPools(): { l1: RpcPool; facet: RpcPool } {
+  if (!pools) {
+    const conf = getNetworkConfig();
+    const options = {
+      timeoutMs: Number(process.env.RPC_TIMEOUT_MS) || undefined,
+      probeIntervalMs: (Number(process.env.RPC_PROBE_INTERVAL_SEC) || 30) * 1000,
+    };
+    pools = {
+      l1: new RpcPool("L1", conf.l1RpcUrls, conf.l1Chain, options),
+      facet: new RpcPool("Facet", conf.facetRpcUrls, conf.facetChain, options),
+    };
+  }
+  return pools;
+}
+
+export function l1Transport(): Transport {
+  return getRpcPools().l1.transport();
+}
+
+export function facetTransport(): Transport {
+  return getRpcPools().facet.transport();
+}
+
+export function formatEndpoint(health: EndpointHealth): string {
+  let host = health.url;
+  try {
+    host = new URL(health.url).host;
+  } catch {}
+  const lag = health.blockNumber == null ? "?" : `${health.blockLag}`;
+  return `${host} (${Math.round(health.latencyMs)}ms, ${(health.errorRate * 100).toFixed(
+    0
+  )}% err, lag ${lag})`;
+}
@@ -0,0 +1,267 @@
+// Mining windows for auto mode: when mining is allowed, and with which size,
+// spend cap and gas ceiling. MINING_WINDOWS holds one or more windows
+// separated by ";", each a day/hour range or a cron expression plus a
+// duration, followed by optional overrides:
+//
+//   weekends 01:00-06:00 cap=0.05 gwei=8
+//   mon-fri 22:00-02:00 size=50          (ends on the next day)
+//   cron(0 */6 * * *) 90m gwei=10        (every 6 hours, for 90 minutes)
+//
+// Times are wall-clock times in MINING_TIMEZONE (an IANA name such as UTC or
+// Europe/Berlin). Windows are resolved to the minute.
+
+const MINUTE_MS = 60_000;
+const DAY_MINUTES = 24 * 60;
+const HORIZON_MINUTES = 40 * DAY_MINUTES; // far enough for monthly cron windows
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const DAY_ALIASES: Record<string, number[]> = {
+  daily: [0, 1, 2, 3, 4, 5, 6],
+  "*": [0, 1, 2, 3, 4, 5, 6],
+  weekdays: [1, 2, 3, 4, 5],
+  weekends: [0, 6],
+};
+
+interface WallClock {
+  minute: number;
+  hour: number;
+  day: number; // of month
+  month: number; // 1..12
+  weekday: number; // 0 = Sunday
+}
+
+export interface MiningWindow {
+  spec: string; // as written, without the overrides
+  durationMinutes: number;
+  sizeKb?: number;
+  spendCapEth?: number; // per occurrence of the window
+  maxL1Gwei?: number;
+  startsAt(clock: WallClock): boolean;
+}
+
+export interface WindowOccurrence {
+  window: MiningWindow;
+  start: Date;
+  end: Date;
+}
+
+function parseTime(text: string, allow24: boolean): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(text);
+  const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+  if (!match || Number(match[2]) > 59 || minutes > (allow24 ? DAY_MINUTES : DAY_MINUTES - 1)) {
+    throw new Error(`invalid time "${text}" (expected HH:MM)`);
+  }
+  return minutes;
+}
+
+function parseDays(text: string): number[] {
+  const lower = text.toLowerCase();
+  if (DAY_ALIASES[lower]) return DAY_ALIASES[lower];
+  const days = new Set<number>();
+  for (const part of lower.split(",")) {
+    const [from, to] = part.split("-").map((name) => DAY_NAMES.indexOf(name.slice(0, 3)));
+    if (from < 0 || to < 0) throw new Error(`invalid days "${text}" (e.g. mon-fri, sat,sun, weekends, daily)`);
+    // sat-mon wraps through Sunday
+    for (let d = from; ; d = (d + 1) % 7) {
+      days.add(d);
+      if (d === (to ?? from)) break;
+    }
+  }
+  return [...days];
+}
+
+function parseDuration(text: string): number {
+  const match = /^(?:(\d+)d)?(?:(\d+)h)?(?:(\d+)m)?$/.exec(text);
+  const minutes = match ? Number(match[1] ?? 0) * DAY_MINUTES + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0) : 0;
+  if (!match || minutes <= 0) throw new Error(`invalid duration "${text}" (e.g. 90m, 5h, 1h30m)`);
+  return minutes;
+}
+
+/** One cron field as the set of values it matches. */
+function parseCronField(text: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText != null ? Number(stepText) : 1;
+    let [from, to] = range === "*" ? [min, max] : range.split("-").map(Number);
+    if (to == null) to = stepText != null ? max : from;
+    if (![from, to, step].every(Number.isInteger) || from < min || to > max || from > to || step < 1) {
+      throw new Error(`invalid cron field "${text}"`);
+    }
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
+
+function parseCron(expression: string): (clock: WallClock) => boolean {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error(`cron "${expression}" needs 5 fields (minute hour day month weekday)`);
+  const [minutes, hours, days, months, weekdays] = [
+    parseCronField(fields[0], 0, 59),
+    parseCronField(fields[1], 0, 23),
+    parseCronField(fields[2], 1, 31),
+    parseCronField(fields[3], 1, 12),
+    parseCronField(fields[4], 0, 7),
+  ];
+  if (weekdays.has(7)) weekdays.add(0);
+  // As in cron: when both day fields are restricted, either one matching is enough
+  const dayRestricted = fields[2] !== "*";
+  const weekdayRestricted = fields[4] !== "*";
+  return (c) => {
+    const dayMatch =
+      dayRestricted && weekdayRestricted
+        ? days.has(c.day) || weekdays.has(c.weekday)
+        : days.has(c.day) && weekdays.has(c.weekday);
+    return minutes.has(c.minute) && hours.has(c.hour) && months.has(c.month) && dayMatch;
+  };
+}
+
+function parseWindow(text: string): MiningWindow {
+  let rest = text.trim();
+  let window: Omit<MiningWindow, "spec">;
+  let spec: string;
+
+  const cron = /^cron\(([^)]*)\)\s+(\S+)/i.exec(rest);
+  if (cron) {
+    spec = cron[0];
+    window = { startsAt: parseCron(cron[1]), durationMinutes: parseDuration(cron[2]) };
+  } else {
+    const range = /^(\S+)\s+(\d{1,2}:\d{2})-(\d{1,2}:\d{2})/.exec(rest);
+    if (!range) throw new Error(`expected "<days> HH:MM-HH:MM" or "cron(<expr>) <duration>"`);
+    spec = range[0];
+    const days = parseDays(range[1]);
+    const start = parseTime(range[2], false);
+    const end = parseTime(range[3], true);
+    window = {
+      // An end at or before the start is on the next day
+      durationMinutes: end > start ? end - start : end + DAY_MINUTES - start,
+      startsAt: (c) => c.hour * 60 + c.minute === start && days.includes(c.weekday),
+    };
+  }
+  rest = rest.slice(spec.length).trim();
+
+  const result: MiningWindow = { spec, ...window };
+  for (const option of rest ? rest.split(/\s+/) : []) {
+    const [key, value] = option.split("=");
+    const n = Number(value);
+    if (value == null || !Number.isFinite(n) || n <= 0) throw new Error(`invalid option "${option}"`);
+    if (key === "size") {
+      if (n > 128) throw new Error(`size=${n} is above the 128KB maximum`);
+      result.sizeKb = n;
+    } else if (key === "cap") result.spendCapEth = n;
+    else if (key === "gwei") result.maxL1Gwei = n;
+    else throw new Error(`unknown option "${key}" (expected size=, cap= or gwei=)`);
+  }
+  return result;
+}
+
+export class MiningSchedule {
+  private readonly formatter: Intl.DateTimeFormat;
+
+  constructor(
+    readonly windows: MiningWindow[],
+    readonly timeZone: string
+  ) {
+    this.formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      weekday: "short",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+  }
+
+  private clock(date: Date): WallClock {
+    const parts: Record<string, string> = {};
+    for (const { type, value } of this.formatter.formatToParts(date)) parts[type] = value;
+    return {
+      minute: Number(parts.minute),
+      hour: Number(parts.hour),
+      day: Number(parts.day),
+      month: Number(parts.month),
+      weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+    };
+  }
+
+  /** The open window occurrence at `now`, or null; the first listed wins on overlap. */
+  current(now = new Date()): WindowOccurrence | null {
+    const minute = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+    for (const window of this.windows) {
+      for (let back = 0; back < window.durationMinutes; back++) {
+        const start = new Date(minute - back * MINUTE_MS);
+        if (window.startsAt(this.clock(start))) {
+          return { window, start, end: new Date(start.getTime() + window.durationMinutes * MINUTE_MS) };
+        }
+      }
+    }
+    return null;
+  }
+
+  /** Occurrences starting after `now`, soonest first. */
+  upcoming(count: number, now = new Date()): WindowOccurrence[] {
+    const found: WindowOccurrence[] = [];
+    const first = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+    for (let i = 0; i < HORIZON_MINUTES && found.length < count; i++) {
+      const start = new Date(first + i * MINUTE_MS);
+      const clock = this.clock(start);
+      for (const window of this.windows) {
+        if (found.length < count && window.startsAt(clock)) {
+          found.push({ window, start, end: new Date(start.getTime() + window.durationMinutes * MINUTE_MS) });
+        }
+      }
+    }
+    return found;
+  }
+
+  next(now = new Date()): WindowOccurrence | null {
+    return this.upcoming(1, now)[0] ?? null;
+  }
+
+  /** "Sat, 2025-06-07 01:00-06:00 UTC", in the schedule's timezone. */
+  format(occurrence: WindowOccurrence): string {
+    const date = (d: Date) =>
+      d.toLocaleDateString("en-CA", { timeZone: this.timeZone, weekday: "short", year: "numeric", month: "2-digit", day: "2-digit" });
+    const time = (d: Date) =>
+      d.toLocaleTimeString("en-GB", { timeZone: this.timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" });
+    const sameDay = date(occurrence.start) === date(occurrence.end);
+    return (
+      `${date(occurrence.start)} ${time(occurrence.start)}-` +
+      `${sameDay ? "" : date(occurrence.end) + " "}${time(occurrence.end)} ${this.timeZone}`
+    );
+  }
+}
+
+/** Overrides of a window, for logs: "cap 0.05 ETH, max 8 gwei". */
+export function describeWindowLimits(window: MiningWindow): string {
+  const limits = [
+    window.sizeKb != null ? `${window.sizeKb}KB` : null,
+    window.spendCapEth != null ? `cap ${window.spendCapEth} ETH` : null,
+    window.maxL1Gwei != null ? `max ${window.maxL1Gwei} gwei` : null,
+  ].filter(Boolean);
+  return limits.length > 0 ? limits.join(", ") : "default limits";
+}
+
+/** Parse MINING_WINDOWS; throws naming the window that is wrong. */
+export function parseSchedule(spec: string, timeZone: string): MiningSchedule {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new Error(`unknown timezone "${timeZone}"`);
+  }
+  const windows = spec
+    .split(";")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      try {
+        return parseWindow(part);
+      } catch (error: any) {
+        throw new Error(`"${part}": ${error.message}`);
+      }
+    });
+  if (windows.length === 0) throw new Error("no windows given");
+  return new MiningSchedule(windows, timeZone);
+}
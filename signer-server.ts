@@ -0,0 +1,163 @@
+#!/usr/bin/env tsx
+import "dotenv/config";
+import * as crypto from "crypto";
+import * as http from "http";
+import { hexToBigInt, hexToNumber, type Hex, type TransactionSerializable } from "viem";
+import type { LocalAccount } from "viem/accounts";
+import { loadLocalAccounts } from "./account";
+import { getNetworkConfig } from "./config";
+
+// Stand-in remote signer: holds the keys (KEYSTORE_PATH / HD_PATH / PRIVATE_KEY) and
+// answers eth_accounts / eth_signTransaction over JSON-RPC, so the miner can
+// run with SIGNER=remote and never see a private key. Run it as a separate,
+// locked-down user; it never talks to a chain and only signs for the active
+// network's L1 and Facet chain IDs.
+//
+//   SIGNER_LISTEN=127.0.0.1:8550   address to bind (keep it on loopback)
+//   REMOTE_SIGNER_TOKEN=...        optional bearer token clients must send
+
+const TX_TYPES: Record<string, TransactionSerializable["type"]> = {
+  "0x0": "legacy",
+  "0x1": "eip2930",
+  "0x2": "eip1559",
+};
+
+// A 128KB mining payload is 256KB as hex; anything much bigger is not a signing request
+const MAX_BODY_BYTES = 512 * 1024;
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+function parseListen(value: string): { host: string; port: number } {
+  const [host, port] = value.includes(":") ? value.split(":") : ["127.0.0.1", value];
+  return { host: host || "127.0.0.1", port: Number(port) };
+}
+
+// Compared as digests so neither the token's content nor its length leaks through timing
+function authorized(header: string | undefined, token: string): boolean {
+  const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(header ?? ""), digest(`Bearer ${token}`));
+}
+
+function field(tx: Record<string, Hex>, name: string): Hex {
+  if (tx[name] == null) throw new RpcError(-32602, `transaction.${name} is required`);
+  return tx[name];
+}
+
+function quantity(tx: Record<string, Hex>, name: string, required = false): bigint | undefined {
+  if (tx[name] == null && !required) return undefined;
+  return hexToBigInt(field(tx, name));
+}
+
+// The signer has no RPC of its own, so every field it signs must come filled in
+function parseTransaction(tx: Record<string, Hex>): TransactionSerializable {
+  const type = tx.type != null ? TX_TYPES[tx.type] : tx.maxFeePerGas != null ? "eip1559" : "legacy";
+  if (!type) throw new RpcError(-32602, `unsupported transaction type ${tx.type}`);
+
+  const base = {
+    chainId: hexToNumber(field(tx, "chainId")),
+    nonce: hexToNumber(field(tx, "nonce")),
+    gas: quantity(tx, "gas", true),
+    to: tx.to,
+    value: quantity(tx, "value"),
+    data: tx.data ?? tx.input,
+  };
+  if (type === "eip1559") {
+    return {
+      ...base,
+      type,
+      maxFeePerGas: quantity(tx, "maxFeePerGas", true),
+      maxPriorityFeePerGas: quantity(tx, "maxPriorityFeePerGas", true),
+    };
+  }
+  return { ...base, type, gasPrice: quantity(tx, "gasPrice", true) } as TransactionSerializable;
+}
+
+async function main() {
+  const conf = getNetworkConfig();
+  const allowedChainIds = new Set([conf.l1Chain.id, conf.facetChainId]);
+  const token = process.env.REMOTE_SIGNER_TOKEN;
+  const { host, port } = parseListen(process.env.SIGNER_LISTEN || "127.0.0.1:8550");
+
+  const accounts = await loadLocalAccounts();
+  const byAddress = new Map<string, LocalAccount>(accounts.map((a) => [a.address.toLowerCase(), a]));
+
+  async function handle(method: string, params: any[]): Promise<unknown> {
+    switch (method) {
+      case "eth_accounts":
+        return accounts.map((a) => a.address);
+
+      case "eth_signTransaction": {
+        const request = params?.[0] as Record<string, Hex> | undefined;
+        if (!request?.from) throw new RpcError(-32602, "transaction.from is required");
+        const account = byAddress.get(request.from.toLowerCase());
+        if (!account) throw new RpcError(-32000, `unknown account ${request.from}`);
+
+        const tx = parseTransaction(request);
+        if (!allowedChainIds.has(tx.chainId!)) {
+          throw new RpcError(-32000, `chainId ${tx.chainId} is not allowed on network ${conf.name}`);
+        }
+        const raw = await account.signTransaction(tx);
+        console.log(`signed nonce=${tx.nonce} chainId=${tx.chainId} from=${account.address} to=${tx.to ?? "(create)"}`);
+        return { raw, tx: request };
+      }
+
+      default:
+        throw new RpcError(-32601, `method ${method} not supported`);
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    const reply = (status: number, body: unknown) => {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== "POST") return reply(405, { error: "POST only" });
+    if (token && !authorized(req.headers.authorization, token)) return reply(401, { error: "unauthorized" });
+
+    let body = "";
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) {
+        body += chunk;
+      } else if (!res.headersSent) {
+        req.removeAllListeners("end");
+        res.once("finish", () => req.destroy());
+        reply(413, { error: `request body over ${MAX_BODY_BYTES} bytes` });
+      }
+    });
+    req.on("end", async () => {
+      let id: unknown = null;
+      try {
+        const call = JSON.parse(body);
+        id = call.id ?? null;
+        const result = await handle(call.method, call.params ?? []);
+        reply(200, { jsonrpc: "2.0", id, result });
+      } catch (error: any) {
+        const code = error instanceof RpcError ? error.code : -32603;
+        if (!(error instanceof RpcError)) console.error("signer error:", error);
+        reply(200, { jsonrpc: "2.0", id, error: { code, message: error?.message || String(error) } });
+      }
+    });
+  });
+
+  server.listen(port, host, () => {
+    console.log(`Remote signer listening on http://${host}:${port} (network ${conf.name}, chainIds ${[...allowedChainIds].join(", ")})`);
+    for (const a of accounts) console.log(`  ${a.address}`);
+    if (!token) console.log("  No REMOTE_SIGNER_TOKEN set: any local process can request signatures");
+  });
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,134 @@
+import {
+  formatTransactionRequest,
+  getAddress,
+  isHex,
+  numberToHex,
+  recoverTransactionAddress,
+  toHex,
+  type Address,
+  type Hex,
+  type TransactionSerializable,
+  type TransactionSerialized,
+} from "viem";
+import { toAccount, type LocalAccount } from "viem/accounts";
+
+// Where transactions get signed:
+//   local    keys are decrypted in this process (KEYSTORE_PATH / PRIVATE_KEY)
+//   remote   a separate JSON-RPC signer (Clef, geth or `npm run signer`) holds
+//            the keys; this process only builds transactions and sends
+//            eth_signTransaction to REMOTE_SIGNER_URL
+// Either way callers get a viem LocalAccount, so walletClient.sendTransaction /
+// writeContract sign through it and broadcast the raw transaction themselves.
+
+export type SignerBackend = "local" | "remote";
+
+export const DEFAULT_REMOTE_SIGNER_URL = "http://127.0.0.1:8550";
+
+export function getSignerBackend(): SignerBackend {
+  const value = (process.env.SIGNER || "local").toLowerCase().trim();
+  if (value !== "local" && value !== "remote") {
+    throw new Error(`SIGNER must be 'local' or 'remote' (got "${process.env.SIGNER}")`);
+  }
+  return value;
+}
+
+export interface RemoteSignerOptions {
+  url: string;
+  token?: string;
+  timeoutMs?: number;
+}
+
+export function remoteSignerOptionsFromEnv(): RemoteSignerOptions {
+  return {
+    url: process.env.REMOTE_SIGNER_URL || DEFAULT_REMOTE_SIGNER_URL,
+    token: process.env.REMOTE_SIGNER_TOKEN || undefined,
+    timeoutMs: Number(process.env.REMOTE_SIGNER_TIMEOUT_MS || 30_000),
+  };
+}
+
+let nextId = 1;
+
+async function rpcCall<T>(opts: RemoteSignerOptions, method: string, params: unknown[]): Promise<T> {
+  const headers: Record<string, string> = { "content-type": "application/json" };
+  if (opts.token) headers.authorization = `Bearer ${opts.token}`;
+
+  let response: Response;
+  try {
+    response = await fetch(opts.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ jsonrpc: "2.0", id: nextId++, method, params }),
+      signal: AbortSignal.timeout(opts.timeoutMs ?? 30_000),
+    });
+  } catch (error: any) {
+    throw new Error(`Remote signer ${opts.url} unreachable: ${error?.message || error}`);
+  }
+  if (!response.ok) {
+    throw new Error(`Remote signer ${opts.url} returned HTTP ${response.status}`);
+  }
+
+  const body = await response.json();
+  if (body.error) {
+    throw new Error(`Remote signer ${method} failed: ${body.error.message || JSON.stringify(body.error)}`);
+  }
+  return body.result as T;
+}
+
+/** Build the eth_signTransaction parameter for a prepared transaction. */
+export function toSignRequest(address: Address, tx: TransactionSerializable) {
+  // Blob sidecars travel with the raw transaction, not in the signing request
+  const { sidecars: _, ...request } = tx;
+  return {
+    ...formatTransactionRequest({ ...request, from: address }),
+    ...(tx.chainId != null ? { chainId: numberToHex(tx.chainId) } : {}),
+  };
+}
+
+/** An account whose signatures come from a remote JSON-RPC signer. */
+export function remoteSignerAccount(address: Address, opts: RemoteSignerOptions): LocalAccount {
+  return toAccount({
+    address,
+
+    async signTransaction(tx) {
+      // geth/Clef answer { raw, tx }; simpler signers answer the raw hex
+      const result = await rpcCall<unknown>(opts, "eth_signTransaction", [toSignRequest(address, tx)]);
+      const raw = result && typeof result === "object" && "raw" in result ? result.raw : result;
+      if (!isHex(raw)) throw new Error(`Remote signer returned no signed transaction: ${JSON.stringify(result)}`);
+
+      // Never broadcast something signed by a different key than the one we asked for
+      const signer = await recoverTransactionAddress({ serializedTransaction: raw as TransactionSerialized });
+      if (signer.toLowerCase() !== address.toLowerCase()) {
+        throw new Error(`Remote signer returned a transaction signed by ${signer}, expected ${address}`);
+      }
+      return raw;
+    },
+
+    async signMessage({ message }) {
+      const data =
+        typeof message === "string" ? toHex(message) : typeof message.raw === "string" ? message.raw : toHex(message.raw);
+      return rpcCall<Hex>(opts, "eth_sign", [address, data]);
+    },
+
+    async signTypedData(typedData) {
+      return rpcCall<Hex>(opts, "eth_signTypedData_v4", [address, JSON.stringify(typedData, (_, v) => (typeof v === "bigint" ? v.toString() : v))]);
+    },
+  });
+}
+
+/**
+ * Accounts served by the remote signer: REMOTE_SIGNER_ADDRESS (comma-separated)
+ * when set, otherwise everything eth_accounts reports.
+ */
+export async function loadRemoteSignerAccounts(
+  opts: RemoteSignerOptions = remoteSignerOptionsFromEnv()
+): Promise<LocalAccount[]> {
+  const configured = (process.env.REMOTE_SIGNER_ADDRESS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const addresses = configured.length > 0 ? configured : await rpcCall<string[]>(opts, "eth_accounts", []);
+  if (addresses.length === 0) {
+    throw new Error(`Remote signer ${opts.url} has no accounts`);
+  }
+  return addresses.map((a) => remoteSignerAccount(getAddress(a), opts));
+}
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { parseGwei } from "viem";
+import { DefaultStrategy, type DefaultStrategyOptions, type StrategySnapshot, type StrategyTools } from "./strategy";
+import type { MiningEstimate } from "./mining-engine";
+import type { MiningWindow } from "./schedule";
+
+const options: DefaultStrategyOptions = {
+  sizeKb: 100,
+  dynamicSize: null,
+  maxL1Gwei: 10,
+  mintRate: { mode: "off", withinBlocks: 0, minChangePercent: 0 },
+  relaxAfterCycles: 3,
+  relaxStepPercent: 10,
+};
+
+const tools: StrategyTools = {
+  quote: (sizeBytes) =>
+    ({ sizeBytes, kb: sizeBytes / 1024, snapshot: { fees: { effectiveGasPrice: parseGwei("5") } } }) as MiningEstimate,
+  bestSize: () => null,
+  evaluate: () => null,
+  balanceGate: () => null,
+};
+
+function snapshot(waitCycles: number, window: Partial<MiningWindow> | null = null): StrategySnapshot {
+  return { waitCycles, window, gasOutlook: null } as StrategySnapshot;
+}
+
+test("a mine decision carries MAX_L1_GWEI as its gas ceiling", () => {
+  const decision = new DefaultStrategy(options).decide(snapshot(0), tools);
+  assert.equal(decision.action, "mine");
+  assert.equal(decision.action === "mine" && decision.maxGasPrice, parseGwei("10"));
+});
+
+test("the ceiling relaxes with MAX_L1_GWEI", () => {
+  const decision = new DefaultStrategy(options).decide(snapshot(4), tools);
+  assert.equal(decision.action === "mine" && decision.maxGasPrice, parseGwei("12"));
+});
+
+test("a window's gwei= ceiling is exact", () => {
+  const decision = new DefaultStrategy(options).decide(snapshot(4, { maxL1Gwei: 8 }), tools);
+  assert.equal(decision.action === "mine" && decision.maxGasPrice, parseGwei("8"));
+});
+
+test("no ceiling without MAX_L1_GWEI or a window gwei=", () => {
+  const decision = new DefaultStrategy({ ...options, maxL1Gwei: undefined }).decide(snapshot(0), tools);
+  assert.equal(decision.action === "mine" && decision.maxGasPrice, undefined);
+});
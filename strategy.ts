@@ -0,0 +1,183 @@
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { parseGwei } from "viem";
+import type { Gate, GateLimits, MarketSnapshot, MiningEstimate, SizeSearch } from "./mining-engine";
+import type { MintRateGate, MintRateOutlook } from "./mint-rate";
+import { gwei, type GasOutlook } from "./gas-outlook";
+import type { BudgetStatus } from "./budget";
+import type { MiningWindow } from "./schedule";
+import type { MinerConfig } from "./miner-config";
+
+// Auto mode asks a strategy, once per cycle, whether to mine now and at what
+// size. The strategy sees one snapshot of the market (L1 fees, base-fee
+// outlook, mint rate, ETH and FCT prices) and of the miner (balances, spend
+// budgets, mining window); the auto loop does the rest: spend caps, budget
+// sleeps and the session itself.
+//
+// MINING_STRATEGY=./my-strategy.ts loads a strategy instead of the default.
+// The module's default export is either a MiningStrategy or a function
+// returning one; the function gets the miner settings and the default
+// strategy, so a strategy can wrap it:
+//
+//   export default ({ defaultStrategy }) => ({
+//     name: "weekday-only",
+//     decide: (s, tools) =>
+//       [0, 6].includes(s.now.getUTCDay()) ? { action: "wait", reason: "weekend" } : defaultStrategy.decide(s, tools),
+//   });
+
+export interface StrategySnapshot {
+  now: Date;
+  waitCycles: number; // cycles waited since the last session
+  market: MarketSnapshot; // L1 block, fees and FCT mint rate
+  gasOutlook: GasOutlook | null; // null when eth_feeHistory is unavailable
+  mintRate: MintRateOutlook | null;
+  ethPriceUsd: number;
+  fctPriceUsd: number | null; // from the Facet WETH/wFCT pool; null when it cannot be read
+  balance: {
+    total: bigint;
+    available: bigint; // above every wallet's minimum and outside its session cap
+    wallets: number;
+    belowMinimum: number; // wallets at or under MIN_BALANCE_ETH
+  };
+  budgets: BudgetStatus[];
+  budgetRemainingWei: bigint | null; // what every budget still allows; null without budgets
+  window: MiningWindow | null; // the open MINING_WINDOWS window
+}
+
+/** Engine helpers bound to the snapshot; none of them reads the chain. */
+export interface StrategyTools {
+  quote(sizeBytes: number): MiningEstimate;
+  /** Cheapest size per FCT in a byte range that meets the limits, as AUTO_DYNAMIC_SIZE does. */
+  bestSize(search?: SizeSearch): MiningEstimate | null;
+  /** The built-in gas, base-fee, efficiency, mint-rate and cost rules. */
+  evaluate(estimate: MiningEstimate, limits: GateLimits): Gate | null;
+  /** Gate when every wallet is at its minimum balance. */
+  balanceGate(): Gate | null;
+}
+
+export type MiningDecision =
+  | {
+      action: "mine";
+      sizeBytes: number; // per transaction, OVERHEAD_BYTES included
+      maxGasPrice?: bigint; // the session ends once the expected gas price is above this
+      reason: string;
+    }
+  | { action: "wait"; reason: string; gate?: Gate };
+
+export interface MiningStrategy {
+  readonly name: string;
+  decide(snapshot: StrategySnapshot, tools: StrategyTools): MiningDecision | Promise<MiningDecision>;
+}
+
+export interface DefaultStrategyOptions {
+  sizeKb: number;
+  dynamicSize: { minKb: number; maxKb: number } | null; // searched byte by byte
+  maxL1Gwei?: number;
+  maxBaseFeePercentile?: number;
+  maxNextBaseFeeGwei?: number;
+  maxCostPerFctUsd?: number;
+  minEfficiencyPercent?: number;
+  mintRate: MintRateGate;
+  relaxAfterCycles: number;
+  relaxStepPercent: number;
+}
+
+/**
+ * The built-in rules: balance, then gas, base-fee outlook, efficiency, mint
+ * rate and cost/FCT, relaxed a little more for every cycle spent waiting past
+ * relaxAfterCycles. The open window may fix the size and the gas ceiling.
+ */
+export class DefaultStrategy implements MiningStrategy {
+  readonly name = "default";
+
+  constructor(readonly opts: DefaultStrategyOptions) {}
+
+  limits(snapshot: StrategySnapshot): GateLimits {
+    const o = this.opts;
+    const relaxFactor =
+      snapshot.waitCycles >= o.relaxAfterCycles
+        ? 1 + ((snapshot.waitCycles - o.relaxAfterCycles + 1) * o.relaxStepPercent) / 100
+        : 1;
+    // A window's gwei= is a hard ceiling; only MAX_L1_GWEI relaxes
+    const windowGwei = snapshot.window?.maxL1Gwei;
+    return {
+      maxL1Gwei: windowGwei ?? (o.maxL1Gwei != null ? o.maxL1Gwei * relaxFactor : undefined),
+      gasOutlook: {
+        maxBaseFeePercentile:
+          o.maxBaseFeePercentile != null ? Math.min(100, o.maxBaseFeePercentile * relaxFactor) : undefined,
+        maxNextBaseFeeGwei: o.maxNextBaseFeeGwei != null ? o.maxNextBaseFeeGwei * relaxFactor : undefined,
+      },
+      maxCostPerFctUsd: o.maxCostPerFctUsd != null ? o.maxCostPerFctUsd * relaxFactor : undefined,
+      minEfficiencyPercent: o.minEfficiencyPercent != null ? Math.max(0, o.minEfficiencyPercent / relaxFactor) : undefined,
+      mintRate: o.mintRate,
+    };
+  }
+
+  decide(snapshot: StrategySnapshot, tools: StrategyTools): MiningDecision {
+    const balanceGate = tools.balanceGate();
+    if (balanceGate) return { action: "wait", reason: balanceGate.message, gate: balanceGate };
+
+    const limits = this.limits(snapshot);
+    const { dynamicSize } = this.opts;
+    const windowKb = snapshot.window?.sizeKb;
+    const est =
+      dynamicSize && windowKb == null
+        ? tools.bestSize({
+            minBytes: dynamicSize.minKb * 1024,
+            maxBytes: dynamicSize.maxKb * 1024,
+            maxCostPerFctUsd: limits.maxCostPerFctUsd,
+            minEfficiencyPercent: limits.minEfficiencyPercent,
+          })
+        : tools.quote(Math.floor(windowKb ?? this.opts.sizeKb) * 1024);
+    if (!est) return { action: "wait", reason: "No size to quote between AUTO_MIN_SIZE_KB and AUTO_MAX_SIZE_KB" };
+
+    const gate = tools.evaluate(est, limits);
+    if (gate) return { action: "wait", reason: gate.message, gate };
+    return {
+      action: "mine",
+      sizeBytes: est.sizeBytes,
+      // Held for the whole session, not just checked at its start
+      maxGasPrice: limits.maxL1Gwei != null ? parseGwei(limits.maxL1Gwei.toFixed(9)) : undefined,
+      reason: describeChecks(est, limits, snapshot.gasOutlook),
+    };
+  }
+}
+
+/** What a passing estimate was checked against, for the decision log. */
+function describeChecks(est: MiningEstimate, limits: GateLimits, outlook: GasOutlook | null): string {
+  const checks = [`${est.kb}KB`];
+  if (limits.maxL1Gwei != null) {
+    checks.push(`gas ${gwei(est.snapshot.fees.effectiveGasPrice)} <= ${limits.maxL1Gwei.toFixed(2)} gwei`);
+  }
+  if (outlook && limits.gasOutlook?.maxBaseFeePercentile != null) {
+    const p = limits.gasOutlook.maxBaseFeePercentile;
+    checks.push(`next base fee ${gwei(outlook.nextBaseFee)} <= p${p.toFixed(0)} ${gwei(outlook.percentile(p))} gwei`);
+  }
+  if (outlook && limits.gasOutlook?.maxNextBaseFeeGwei != null) {
+    checks.push(`next base fee ${gwei(outlook.nextBaseFee)} <= ${limits.gasOutlook.maxNextBaseFeeGwei.toFixed(2)} gwei`);
+  }
+  if (limits.minEfficiencyPercent != null) {
+    checks.push(`eff ${est.efficiencyPercent.toFixed(1)}% >= ${limits.minEfficiencyPercent.toFixed(1)}%`);
+  }
+  if (limits.maxCostPerFctUsd != null) {
+    const over = est.costPerFctUsd > limits.maxCostPerFctUsd; // allowed ahead of a mint-rate drop
+    checks.push(
+      `cost/FCT $${est.costPerFctUsd.toFixed(6)} ${over ? ">" : "<="} $${limits.maxCostPerFctUsd.toFixed(6)}${over ? " before rate drop" : ""}`
+    );
+  }
+  return checks.join(", ");
+}
+
+/** Load MINING_STRATEGY: a module whose default export is a strategy or a function returning one. */
+export async function loadStrategy(
+  file: string,
+  context: { config: MinerConfig; defaultStrategy: MiningStrategy }
+): Promise<MiningStrategy> {
+  const mod = await import(pathToFileURL(path.resolve(file)).href);
+  const exported = mod.default ?? mod.strategy;
+  const strategy = typeof exported === "function" ? await exported(context) : exported;
+  if (!strategy || typeof strategy.decide !== "function") {
+    throw new Error(`${file} must export a strategy with a decide() method, or a function returning one`);
+  }
+  return { name: strategy.name || path.basename(file), decide: strategy.decide.bind(strategy) };
+}
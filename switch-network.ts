@@ -1,54 +1,136 @@
 #!/usr/bin/env tsx
 import * as fs from "fs";
 import * as path from "path";
-
-const SUPPORTED_NETWORKS = ["mainnet", "sepolia"];
-
-function updateEnvFile(network: string) {
+import {
+  getActiveNetworkSource,
+  getNetworkConfig,
+  listNetworks,
+  loadNetworkProfiles,
+  readLocalNetworks,
+  writeLocalNetworks,
+  LOCAL_NETWORKS_FILE,
+} from "./config";
+
+// Older versions stored the active network as NETWORK= in .env. That value
+// would override the profile file, so comment it out when switching.
+function retireEnvNetwork() {
   const envPath = path.join(process.cwd(), ".env");
-
-  if (!fs.existsSync(envPath)) {
-    console.error("Error: .env file not found");
-    process.exit(1);
-  }
-
-  let envContent = fs.readFileSync(envPath, "utf-8");
-
-  // Update the NETWORK line or add it if it doesn't exist
-  if (envContent.includes("NETWORK=")) {
-    envContent = envContent.replace(/NETWORK=.*/, `NETWORK=${network}`);
-  } else {
-    envContent += `\nNETWORK=${network}\n`;
+  if (!fs.existsSync(envPath)) return;
+
+  const lines = fs.readFileSync(envPath, "utf-8").split(/\r?\n/);
+  let changed = false;
+  const updated = lines.map((line) => {
+    if (/^\s*NETWORK\s*=/.test(line)) {
+      changed = true;
+      return `# ${line.trim()}  (moved to ${path.basename(LOCAL_NETWORKS_FILE)})`;
+    }
+    return line;
+  });
+
+  if (changed) {
+    fs.writeFileSync(envPath, updated.join("\n"));
+    console.log(
+      `ℹ️  Commented out NETWORK in .env; the active network now lives in ${path.basename(
+        LOCAL_NETWORKS_FILE
+      )}`
+    );
   }
+}
 
-  fs.writeFileSync(envPath, envContent);
+function setActiveNetwork(network: string) {
+  const local = readLocalNetworks();
+  writeLocalNetworks({ ...local, active: network });
+  retireEnvNetwork();
+  // dotenv already loaded the old value into this process
+  delete process.env.NETWORK;
   console.log(`✅ Network switched to: ${network}`);
 }
 
 function showCurrentNetwork() {
-  const envPath = path.join(process.cwd(), ".env");
-
-  if (!fs.existsSync(envPath)) {
-    console.log("Current network: mainnet (default)");
-    return;
+  const { name, source } = getActiveNetworkSource();
+  const sourceText =
+    source === "env"
+      ? "NETWORK environment variable"
+      : source === "local"
+      ? path.basename(LOCAL_NETWORKS_FILE)
+      : "default";
+  console.log(`Current network: ${name} (from ${sourceText})`);
+
+  const conf = getNetworkConfig(name);
+  if (conf.description) console.log(`  ${conf.description}`);
+  console.log("");
+  console.log("L1:");
+  console.log(`  Chain:      ${conf.l1Chain.name} (id ${conf.l1Chain.id})`);
+  console.log(`  RPC:        ${conf.l1RpcUrl}`);
+  console.log(`  Explorer:   ${conf.l1ExplorerUrl}`);
+  console.log("Facet:");
+  console.log(`  Chain:      ${conf.facetChain.name} (id ${conf.facetChainId})`);
+  console.log(`  RPC:        ${conf.facetRpcUrl}`);
+  console.log(`  Explorer:   ${conf.facetExplorerUrl}`);
+  console.log("Contracts:");
+  console.log(`  Trading:    ${conf.tradingEnabled ? "enabled" : "not available"}`);
+  if (conf.tradingEnabled) {
+    console.log(`  ROUTER:     ${conf.router}`);
+    console.log(`  WETH:       ${conf.weth}`);
+    console.log(`  WFCT:       ${conf.wfct}`);
   }
+  console.log(
+    `  FCT/WETH:   ${conf.fctWethPair ?? (conf.tradingEnabled ? "(from the router's factory)" : "(not set)")}`
+  );
+}
+
+function showNotes(network: string) {
+  const conf = getNetworkConfig(network);
+  if (conf.notes.length === 0) return;
+  console.log("");
+  console.log(`${conf.description ?? network}:`);
+  for (const note of conf.notes) console.log(`  - ${note}`);
+}
 
-  const envContent = fs.readFileSync(envPath, "utf-8");
-  const networkMatch = envContent.match(/NETWORK=(.*)/);
-  const currentNetwork = networkMatch ? networkMatch[1].trim() : "mainnet";
+// add <name> [--from <base>]: create a custom profile in networks.local.json
+// that inherits everything from <base>, ready to be edited by hand.
+function addNetwork(name: string, base: string) {
+  const profiles = loadNetworkProfiles();
+  if (profiles[name]) {
+    console.error(`Error: Network "${name}" already exists`);
+    process.exit(1);
+  }
+  if (!profiles[base]) {
+    console.error(`Error: Unknown base network "${base}"`);
+    process.exit(1);
+  }
 
-  console.log(`Current network: ${currentNetwork}`);
+  const local = readLocalNetworks();
+  const { l1, facet } = profiles[base];
+  writeLocalNetworks({
+    ...local,
+    profiles: {
+      ...local.profiles,
+      [name]: {
+        extends: base,
+        description: `Custom network based on ${base}`,
+        notes: [],
+        l1: { rpcUrl: l1.rpcUrl },
+        facet: { chainId: facet.chainId, rpcUrl: facet.rpcUrl },
+      },
+    },
+  });
+  console.log(`✅ Added network "${name}" (based on ${base})`);
+  console.log(`   Edit ${path.basename(LOCAL_NETWORKS_FILE)} to set its RPC URLs, chain IDs and contracts.`);
 }
 
 function main() {
   const args = process.argv.slice(2);
+  const networks = listNetworks();
 
   if (args.length === 0) {
     console.log("Usage:");
-    console.log("  npm run network <network>   - Switch to network");
-    console.log("  npm run network:show        - Show current network");
+    console.log("  npm run network <network>              - Switch to network");
+    console.log("  npm run network:show                   - Show current network settings");
+    console.log("  npm run network list                   - List available networks");
+    console.log("  npm run network add <name> [--from n]  - Add a custom network");
     console.log("");
-    console.log("Supported networks:", SUPPORTED_NETWORKS.join(", "));
+    console.log("Supported networks:", networks.join(", "));
     showCurrentNetwork();
     process.exit(1);
   }
@@ -60,30 +142,36 @@ function main() {
     return;
   }
 
-  if (!SUPPORTED_NETWORKS.includes(command)) {
-    console.error(`Error: Unsupported network "${command}"`);
-    console.error("Supported networks:", SUPPORTED_NETWORKS.join(", "));
-    process.exit(1);
+  if (command === "list") {
+    const { name: active } = getActiveNetworkSource();
+    const profiles = loadNetworkProfiles();
+    for (const name of networks) {
+      const marker = name === active ? "*" : " ";
+      console.log(`${marker} ${name.padEnd(12)} ${profiles[name].description ?? ""}`);
+    }
+    return;
   }
 
-  updateEnvFile(command);
+  if (command === "add") {
+    const name = args[1];
+    const fromIndex = args.indexOf("--from");
+    const base = fromIndex >= 0 ? args[fromIndex + 1] : "sepolia";
+    if (!name || name.startsWith("--")) {
+      console.error("Error: Missing network name");
+      process.exit(1);
+    }
+    addNetwork(name, base);
+    return;
+  }
 
-  // Show network-specific information
-  if (command === "sepolia") {
-    console.log("");
-    console.log("🧪 Sepolia Testnet Configuration:");
-    console.log("  - Get Sepolia ETH from: https://sepoliafaucet.com/");
-    console.log("  - FCT trading/swapping not available on testnet");
-    console.log("  - Lower gas costs for testing");
-    console.log("  - Production mining with 100KB transactions");
-  } else if (command === "mainnet") {
-    console.log("");
-    console.log("🚀 Mainnet Configuration:");
-    console.log("  - Real ETH required for gas fees");
-    console.log("  - FCT trading and price data available");
-    console.log("  - Higher gas costs");
-    console.log("  - Use: npm run mine (for production)");
+  if (!networks.includes(command)) {
+    console.error(`Error: Unsupported network "${command}"`);
+    console.error("Supported networks:", networks.join(", "));
+    process.exit(1);
   }
+
+  setActiveNetwork(command);
+  showNotes(command);
 }
 
 main();
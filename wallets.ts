@@ -0,0 +1,190 @@
+import {
+  createWalletClient,
+  parseEther,
+  type Chain,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from "viem";
+import type { LocalAccount } from "viem/accounts";
+
+// Several L1 accounts mining in one session. Each wallet keeps its own
+// spend cap and minimum balance; the pool decides which one sends next.
+
+export type WalletRotation = "round-robin" | "balance";
+
+export interface MiningWallet {
+  index: number;
+  account: LocalAccount;
+  client: WalletClient<Transport, Chain, LocalAccount>;
+  spendCap?: bigint; // per session; unset = no per-wallet cap
+  minBalance: bigint; // never spend below this
+  balance: bigint;
+  spent: bigint; // from L1 receipts
+  baseFeeBurned: bigint;
+  priorityFees: bigint;
+  reserved: bigint; // estimated burn of transactions still in flight
+  fctMinted: bigint;
+  txCount: number;
+}
+
+/** Receipt-based cost of one L1 transaction (see L1Cost in mining-engine). */
+export interface L1Fees {
+  total: bigint;
+  baseFeeBurned: bigint;
+  priorityFee: bigint;
+}
+
+export interface WalletPoolOptions {
+  chain: Chain;
+  transport: Transport;
+  rotation: WalletRotation;
+  spendCapsEth?: number[];
+  minBalancesEth?: number[];
+  defaultMinBalanceEth?: number;
+}
+
+function toWei(eth: number): bigint {
+  return parseEther(eth.toString());
+}
+
+export function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export class WalletPool {
+  readonly wallets: MiningWallet[];
+  readonly rotation: WalletRotation;
+  private cursor = 0;
+
+  constructor(accounts: LocalAccount[], opts: WalletPoolOptions) {
+    if (accounts.length === 0) throw new Error("WalletPool needs at least one account");
+    if (opts.spendCapsEth && opts.spendCapsEth.length > accounts.length) {
+      throw new Error(`WALLET_SPEND_CAPS_ETH has ${opts.spendCapsEth.length} entries but only ${accounts.length} wallet(s) are configured`);
+    }
+    if (opts.minBalancesEth && opts.minBalancesEth.length > accounts.length) {
+      throw new Error(`WALLET_MIN_BALANCES_ETH has ${opts.minBalancesEth.length} entries but only ${accounts.length} wallet(s) are configured`);
+    }
+
+    this.rotation = opts.rotation;
+    this.wallets = accounts.map((account, index) => {
+      const capEth = opts.spendCapsEth?.[index];
+      const minEth = opts.minBalancesEth?.[index] ?? opts.defaultMinBalanceEth ?? 0;
+      return {
+        index,
+        account,
+        client: createWalletClient({ account, chain: opts.chain, transport: opts.transport }),
+        spendCap: capEth != null ? toWei(capEth) : undefined,
+        minBalance: toWei(minEth),
+        balance: 0n,
+        spent: 0n,
+        baseFeeBurned: 0n,
+        priorityFees: 0n,
+        reserved: 0n,
+        fctMinted: 0n,
+        txCount: 0,
+      };
+    });
+  }
+
+  get primary(): MiningWallet {
+    return this.wallets[0];
+  }
+
+  /** Header label: first address, plus how many others are mining with it. */
+  describe(): string {
+    const extra = this.wallets.length - 1;
+    return extra > 0 ? `${this.primary.account.address} (+${extra} more)` : this.primary.account.address;
+  }
+
+  async refreshBalances(client: PublicClient) {
+    await Promise.all(
+      this.wallets.map(async (w) => {
+        w.balance = await client.getBalance({ address: w.account.address });
+      })
+    );
+  }
+
+  get totalBalance(): bigint {
+    return this.wallets.reduce((sum, w) => sum + w.balance, 0n);
+  }
+
+  /**
+   * What this wallet may still spend this session (balance above its minimum,
+   * within its cap), after what its in-flight transactions are expected to burn.
+   */
+  available(w: MiningWallet): bigint {
+    let room = w.balance > w.minBalance ? w.balance - w.minBalance : 0n;
+    if (w.spendCap != null) {
+      const capRoom = w.spendCap > w.spent ? w.spendCap - w.spent : 0n;
+      if (capRoom < room) room = capRoom;
+    }
+    return room > w.reserved ? room - w.reserved : 0n;
+  }
+
+  get totalAvailable(): bigint {
+    return this.wallets.reduce((sum, w) => sum + this.available(w), 0n);
+  }
+
+  /** Wallets whose balance is below their minimum. */
+  belowMinimum(): MiningWallet[] {
+    return this.wallets.filter((w) => w.balance < w.minBalance);
+  }
+
+  /** Next wallet that can afford `cost`, or null when none can. */
+  pick(cost: bigint): MiningWallet | null {
+    const eligible = this.wallets.filter((w) => this.available(w) >= cost);
+    if (eligible.length === 0) return null;
+
+    if (this.rotation === "balance") {
+      return eligible.reduce((best, w) => (this.available(w) > this.available(best) ? w : best));
+    }
+
+    for (let i = 0; i < this.wallets.length; i++) {
+      const w = this.wallets[(this.cursor + i) % this.wallets.length];
+      if (eligible.includes(w)) {
+        this.cursor = (w.index + 1) % this.wallets.length;
+        return w;
+      }
+    }
+    return null;
+  }
+
+  reserve(w: MiningWallet, eth: bigint) {
+    w.reserved += eth;
+  }
+
+  release(w: MiningWallet, eth: bigint) {
+    w.reserved = w.reserved > eth ? w.reserved - eth : 0n;
+  }
+
+  get totalSpent(): bigint {
+    return this.wallets.reduce((sum, w) => sum + w.spent, 0n);
+  }
+
+  /** Count what a mined L1 transaction paid, whether it minted or not. */
+  charge(w: MiningWallet, cost: L1Fees) {
+    w.spent += cost.total;
+    w.baseFeeBurned += cost.baseFeeBurned;
+    w.priorityFees += cost.priorityFee;
+    w.balance = w.balance > cost.total ? w.balance - cost.total : 0n;
+  }
+
+  record(w: MiningWallet, cost: L1Fees, fctMinted: bigint) {
+    this.charge(w, cost);
+    w.fctMinted += fctMinted;
+    w.txCount++;
+  }
+
+  resetSession() {
+    for (const w of this.wallets) {
+      w.spent = 0n;
+      w.baseFeeBurned = 0n;
+      w.priorityFees = 0n;
+      w.reserved = 0n;
+      w.fctMinted = 0n;
+      w.txCount = 0;
+    }
+    this.cursor = 0;
+  }
+}